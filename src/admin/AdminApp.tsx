@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+
+import { adminListBlogPosts, adminListPortfolios } from "../api";
+import { Link, navigate } from "../router";
+import type { AdminBlogPost, AdminPortfolio } from "../types";
+import BlogPostsPage from "./BlogPostsPage";
+import FloorPlanPinsPage from "./FloorPlanPinsPage";
+import PortfoliosPage from "./PortfoliosPage";
+
+const DEFAULT_ADMIN_KEY = import.meta.env.VITE_ADMIN_API_KEY ?? "";
+
+export interface AdminPageProps {
+  adminKey: string;
+  portfolios: AdminPortfolio[];
+  posts: AdminBlogPost[];
+  setStatus: (status: string) => void;
+  refreshAll: () => Promise<void>;
+}
+
+const ADMIN_SECTIONS = [
+  { path: "portfolios", label: "포트폴리오", Page: PortfoliosPage },
+  { path: "pins", label: "평면도 핀", Page: FloorPlanPinsPage },
+  { path: "blog", label: "블로그", Page: BlogPostsPage },
+] as const;
+
+export default function AdminApp({ section }: { section: string }) {
+  const [adminKey, setAdminKey] = useState(DEFAULT_ADMIN_KEY);
+  const [status, setStatus] = useState("관리자 콘솔 준비 중");
+  const [portfolios, setPortfolios] = useState<AdminPortfolio[]>([]);
+  const [posts, setPosts] = useState<AdminBlogPost[]>([]);
+
+  const current = ADMIN_SECTIONS.find((x) => x.path === section);
+
+  useEffect(() => {
+    if (!current) navigate(`/admin/${ADMIN_SECTIONS[0].path}`, { replace: true });
+  }, [current]);
+
+  async function refreshAll() {
+    if (!adminKey.trim()) {
+      setStatus("X-Admin-Key를 입력하세요.");
+      return;
+    }
+    try {
+      const [nextPortfolios, nextPosts] = await Promise.all([
+        adminListPortfolios(adminKey.trim()),
+        adminListBlogPosts(adminKey.trim()),
+      ]);
+      setPortfolios(nextPortfolios);
+      setPosts(nextPosts);
+      setStatus(`불러오기 완료: 포트폴리오 ${nextPortfolios.length}개, 블로그 ${nextPosts.length}개`);
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : "관리자 데이터를 불러오지 못했습니다.");
+    }
+  }
+
+  useEffect(() => {
+    if (!adminKey.trim()) return;
+    void refreshAll();
+  }, []);
+
+  return (
+    <div className="admin-page">
+      <header className="admin-header">
+        <div>
+          <h1>Partner Console</h1>
+          <p>업체 관리자용 포트폴리오/블로그 CMS</p>
+        </div>
+        <div className="admin-key-box">
+          <label>X-Admin-Key</label>
+          <input value={adminKey} onChange={(e) => setAdminKey(e.target.value)} placeholder="dev-admin-key" />
+          <button onClick={() => void refreshAll()}>새로고침</button>
+        </div>
+      </header>
+
+      <nav className="admin-nav">
+        {ADMIN_SECTIONS.map((item) => (
+          <Link key={item.path} to={`/admin/${item.path}`} className={item === current ? "active" : ""}>
+            {item.label}
+          </Link>
+        ))}
+      </nav>
+
+      <p className="admin-status">{status}</p>
+
+      <main className="admin-grid">
+        {current ? (
+          <current.Page
+            adminKey={adminKey}
+            portfolios={portfolios}
+            posts={posts}
+            setStatus={setStatus}
+            refreshAll={refreshAll}
+          />
+        ) : null}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { FormEvent, useState } from "react";
+
+import { adminCreateBlogPost, adminUpdateBlogStatus } from "../api";
+import type { PublishStatus } from "../types";
+import type { AdminPageProps } from "./AdminApp";
+
+export default function BlogPostsPage({ adminKey, posts, setStatus, refreshAll }: AdminPageProps) {
+  const [blogForm, setBlogForm] = useState({
+    vendor_id: "501",
+    title: "",
+    slug: "",
+    excerpt: "",
+    content: "",
+    status: "draft" as PublishStatus,
+  });
+
+  async function onCreateBlogPost(e: FormEvent) {
+    e.preventDefault();
+    try {
+      await adminCreateBlogPost(adminKey.trim(), {
+        vendor_id: Number(blogForm.vendor_id),
+        title: blogForm.title,
+        slug: blogForm.slug,
+        excerpt: blogForm.excerpt,
+        content: blogForm.content,
+        status: blogForm.status,
+      });
+      setBlogForm((prev) => ({ ...prev, title: "", slug: "", excerpt: "", content: "" }));
+      await refreshAll();
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : "블로그 등록 실패");
+    }
+  }
+
+  async function publishBlogPost(postId: number) {
+    try {
+      await adminUpdateBlogStatus(adminKey.trim(), postId, "published");
+      await refreshAll();
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : "블로그 상태 변경 실패");
+    }
+  }
+
+  return (
+    <section className="admin-panel">
+      <h2>블로그 등록</h2>
+      <form className="admin-form" onSubmit={onCreateBlogPost}>
+        <input
+          value={blogForm.vendor_id}
+          onChange={(e) => setBlogForm((prev) => ({ ...prev, vendor_id: e.target.value }))}
+          placeholder="vendor_id"
+        />
+        <input
+          value={blogForm.title}
+          onChange={(e) => setBlogForm((prev) => ({ ...prev, title: e.target.value }))}
+          placeholder="제목"
+          required
+        />
+        <input
+          value={blogForm.slug}
+          onChange={(e) => setBlogForm((prev) => ({ ...prev, slug: e.target.value }))}
+          placeholder="slug"
+          required
+        />
+        <input
+          value={blogForm.excerpt}
+          onChange={(e) => setBlogForm((prev) => ({ ...prev, excerpt: e.target.value }))}
+          placeholder="요약"
+        />
+        <textarea
+          value={blogForm.content}
+          onChange={(e) => setBlogForm((prev) => ({ ...prev, content: e.target.value }))}
+          placeholder="본문"
+          rows={5}
+          required
+        />
+        <select
+          value={blogForm.status}
+          onChange={(e) => setBlogForm((prev) => ({ ...prev, status: e.target.value as PublishStatus }))}
+        >
+          <option value="draft">draft</option>
+          <option value="review">review</option>
+          <option value="published">published</option>
+        </select>
+        <button type="submit">블로그 저장</button>
+      </form>
+
+      <div className="admin-list">
+        {posts.map((post) => (
+          <article key={post.post_id} className="admin-card">
+            <h3>{post.title}</h3>
+            <p>
+              @{post.slug} / status: <strong>{post.status}</strong>
+            </p>
+            <button onClick={() => void publishBlogPost(post.post_id)}>발행 처리</button>
+          </article>
+        ))}
+      </div>
+    </section>
+  );
+}
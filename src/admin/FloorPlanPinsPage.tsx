@@ -0,0 +1,275 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+
+import {
+  adminCreateFloorPlanPin,
+  adminDeleteFloorPlanPin,
+  adminListFloorPlanPins,
+  adminUpdateFloorPlanPin,
+} from "../api";
+import { ROOM_CATEGORIES, roomLabel } from "../format";
+import type { AdminFloorPlanPin, RoomCategory } from "../types";
+import type { AdminPageProps } from "./AdminApp";
+
+export default function FloorPlanPinsPage({ adminKey, portfolios, setStatus }: AdminPageProps) {
+  const floorPlanEditorRef = useRef<HTMLDivElement | null>(null);
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<number | null>(null);
+  const [pins, setPins] = useState<AdminFloorPlanPin[]>([]);
+  const [editingPinId, setEditingPinId] = useState<number | null>(null);
+  const [draggingPinId, setDraggingPinId] = useState<number | null>(null);
+  const [pinForm, setPinForm] = useState({
+    x_ratio: "50",
+    y_ratio: "50",
+    title: "",
+    room: "" as RoomCategory | "",
+    sort_order: "1",
+    before_urls: "",
+    after_urls: "",
+  });
+
+  useEffect(() => {
+    if (selectedPortfolioId || portfolios.length === 0) return;
+    setSelectedPortfolioId(portfolios[0].portfolio_id);
+  }, [portfolios, selectedPortfolioId]);
+
+  async function refreshPins(portfolioId: number) {
+    try {
+      const rows = await adminListFloorPlanPins(adminKey.trim(), portfolioId);
+      setPins(rows);
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : "핀 목록 불러오기 실패");
+    }
+  }
+
+  useEffect(() => {
+    if (!selectedPortfolioId || !adminKey.trim()) return;
+    void refreshPins(selectedPortfolioId);
+  }, [selectedPortfolioId, adminKey]);
+
+  async function savePin(e: FormEvent) {
+    e.preventDefault();
+    if (!selectedPortfolioId) return;
+    const payload = {
+      x_ratio: Number(pinForm.x_ratio),
+      y_ratio: Number(pinForm.y_ratio),
+      title: pinForm.title || undefined,
+      room: pinForm.room || null,
+      sort_order: Number(pinForm.sort_order || "0"),
+      before_image_urls: pinForm.before_urls.split("\n").map((x) => x.trim()).filter(Boolean),
+      after_image_urls: pinForm.after_urls.split("\n").map((x) => x.trim()).filter(Boolean),
+    };
+    try {
+      if (editingPinId) {
+        await adminUpdateFloorPlanPin(adminKey.trim(), editingPinId, payload);
+      } else {
+        await adminCreateFloorPlanPin(adminKey.trim(), selectedPortfolioId, payload);
+      }
+      setEditingPinId(null);
+      setPinForm({ x_ratio: "50", y_ratio: "50", title: "", room: "", sort_order: "1", before_urls: "", after_urls: "" });
+      await refreshPins(selectedPortfolioId);
+      setStatus("핀 저장 완료");
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : "핀 저장 실패");
+    }
+  }
+
+  function editPin(pin: AdminFloorPlanPin) {
+    setEditingPinId(pin.pin_id);
+    setPinForm({
+      x_ratio: String(pin.x_ratio),
+      y_ratio: String(pin.y_ratio),
+      title: pin.title ?? "",
+      room: pin.room ?? "",
+      sort_order: String(pin.sort_order),
+      before_urls: pin.before_image_urls.join("\n"),
+      after_urls: pin.after_image_urls.join("\n"),
+    });
+  }
+
+  async function removePin(pinId: number) {
+    if (!selectedPortfolioId) return;
+    try {
+      await adminDeleteFloorPlanPin(adminKey.trim(), pinId);
+      if (editingPinId === pinId) {
+        setEditingPinId(null);
+      }
+      await refreshPins(selectedPortfolioId);
+      setStatus("핀 삭제 완료");
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : "핀 삭제 실패");
+    }
+  }
+
+  function ratioFromClient(clientX: number, clientY: number, el: HTMLElement) {
+    const rect = el.getBoundingClientRect();
+    const x = Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100));
+    const y = Math.max(0, Math.min(100, ((clientY - rect.top) / rect.height) * 100));
+    return { x, y };
+  }
+
+  function onFloorPlanClick(clientX: number, clientY: number, el: HTMLElement) {
+    if (draggingPinId) return;
+    const { x, y } = ratioFromClient(clientX, clientY, el);
+    setPinForm((prev) => ({ ...prev, x_ratio: x.toFixed(2), y_ratio: y.toFixed(2) }));
+  }
+
+  function onDragStart(pin: AdminFloorPlanPin) {
+    setDraggingPinId(pin.pin_id);
+    editPin(pin);
+  }
+
+  function onEditorMouseMove(clientX: number, clientY: number) {
+    if (!draggingPinId || !floorPlanEditorRef.current) return;
+    const { x, y } = ratioFromClient(clientX, clientY, floorPlanEditorRef.current);
+    setPinForm((prev) => ({ ...prev, x_ratio: x.toFixed(2), y_ratio: y.toFixed(2) }));
+    setPins((prev) =>
+      prev.map((pin) => (pin.pin_id === draggingPinId ? { ...pin, x_ratio: x, y_ratio: y } : pin)),
+    );
+  }
+
+  async function onDragEnd() {
+    if (!draggingPinId || !selectedPortfolioId) return;
+    const pin = pins.find((x) => x.pin_id === draggingPinId);
+    setDraggingPinId(null);
+    if (!pin) return;
+    try {
+      await adminUpdateFloorPlanPin(adminKey.trim(), pin.pin_id, {
+        x_ratio: pin.x_ratio,
+        y_ratio: pin.y_ratio,
+      });
+      setStatus("핀 위치 저장 완료");
+      await refreshPins(selectedPortfolioId);
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : "핀 위치 저장 실패");
+    }
+  }
+
+  return (
+    <section className="admin-panel">
+      <h2>평면도 핀 편집</h2>
+      <div className="admin-form">
+        <label>
+          대상 포트폴리오
+          <select
+            value={selectedPortfolioId ?? ""}
+            onChange={(e) => setSelectedPortfolioId(Number(e.target.value))}
+          >
+            {portfolios.map((item) => (
+              <option key={item.portfolio_id} value={item.portfolio_id}>
+                #{item.portfolio_id} {item.title}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div
+        ref={floorPlanEditorRef}
+        className={draggingPinId ? "floor-plan-editor dragging" : "floor-plan-editor"}
+        onClick={(e) => {
+          if (e.target !== e.currentTarget) return;
+          onFloorPlanClick(e.clientX, e.clientY, e.currentTarget);
+        }}
+        onMouseMove={(e) => onEditorMouseMove(e.clientX, e.clientY)}
+        onMouseUp={() => void onDragEnd()}
+        onMouseLeave={() => void onDragEnd()}
+      >
+        {pins.map((pin) => (
+          <button
+            key={pin.pin_id}
+            type="button"
+            className={editingPinId === pin.pin_id ? "editor-pin active" : "editor-pin"}
+            style={{ left: `${pin.x_ratio}%`, top: `${pin.y_ratio}%` }}
+            onMouseDown={(e) => {
+              e.stopPropagation();
+              onDragStart(pin);
+            }}
+            title={pin.title ?? `pin-${pin.pin_id}`}
+          >
+            {pin.sort_order}
+          </button>
+        ))}
+      </div>
+
+      <form className="admin-form" onSubmit={savePin}>
+        <input
+          value={pinForm.title}
+          onChange={(e) => setPinForm((prev) => ({ ...prev, title: e.target.value }))}
+          placeholder="핀 제목"
+        />
+        <select
+          value={pinForm.room}
+          onChange={(e) => setPinForm((prev) => ({ ...prev, room: e.target.value as RoomCategory | "" }))}
+        >
+          <option value="">공간 미지정</option>
+          {ROOM_CATEGORIES.map((room) => (
+            <option key={room} value={room}>
+              {roomLabel(room)}
+            </option>
+          ))}
+        </select>
+        <div className="pin-grid">
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            max="100"
+            value={pinForm.x_ratio}
+            onChange={(e) => setPinForm((prev) => ({ ...prev, x_ratio: e.target.value }))}
+            placeholder="x(%)"
+            required
+          />
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            max="100"
+            value={pinForm.y_ratio}
+            onChange={(e) => setPinForm((prev) => ({ ...prev, y_ratio: e.target.value }))}
+            placeholder="y(%)"
+            required
+          />
+          <input
+            type="number"
+            min="0"
+            value={pinForm.sort_order}
+            onChange={(e) => setPinForm((prev) => ({ ...prev, sort_order: e.target.value }))}
+            placeholder="sort_order"
+          />
+        </div>
+        <textarea
+          rows={4}
+          value={pinForm.before_urls}
+          onChange={(e) => setPinForm((prev) => ({ ...prev, before_urls: e.target.value }))}
+          placeholder="Before 이미지 URL (줄바꿈으로 여러 개)"
+        />
+        <textarea
+          rows={4}
+          value={pinForm.after_urls}
+          onChange={(e) => setPinForm((prev) => ({ ...prev, after_urls: e.target.value }))}
+          placeholder="After 이미지 URL (줄바꿈으로 여러 개)"
+        />
+        <button type="submit">{editingPinId ? "핀 수정 저장" : "핀 추가"}</button>
+      </form>
+
+      <div className="admin-list">
+        {pins.map((pin) => (
+          <article key={pin.pin_id} className="admin-card">
+            <h3>
+              {pin.title ?? `핀 ${pin.pin_id}`}
+              {pin.room ? ` · ${roomLabel(pin.room)}` : ""}
+            </h3>
+            <p>
+              ({pin.x_ratio.toFixed(2)}%, {pin.y_ratio.toFixed(2)}%) / before {pin.before_image_urls.length} / after{" "}
+              {pin.after_image_urls.length}
+            </p>
+            <div className="pin-actions">
+              <button onClick={() => editPin(pin)}>편집</button>
+              <button onClick={() => void removePin(pin.pin_id)}>삭제</button>
+            </div>
+          </article>
+        ))}
+        {pins.length === 0 ? <p className="state">핀이 없습니다.</p> : null}
+      </div>
+    </section>
+  );
+}
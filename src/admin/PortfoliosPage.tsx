@@ -0,0 +1,107 @@
+import { FormEvent, useState } from "react";
+
+import { adminCreatePortfolio, adminUpdatePortfolioStatus } from "../api";
+import type { PublishStatus } from "../types";
+import type { AdminPageProps } from "./AdminApp";
+
+export default function PortfoliosPage({ adminKey, portfolios, setStatus, refreshAll }: AdminPageProps) {
+  const [portfolioForm, setPortfolioForm] = useState({
+    complex_id: "101",
+    unit_type_id: "1001",
+    vendor_id: "501",
+    title: "",
+    work_scope: "partial",
+    style: "minimal",
+    status: "draft" as PublishStatus,
+  });
+
+  async function onCreatePortfolio(e: FormEvent) {
+    e.preventDefault();
+    try {
+      await adminCreatePortfolio(adminKey.trim(), {
+        complex_id: Number(portfolioForm.complex_id),
+        unit_type_id: Number(portfolioForm.unit_type_id),
+        vendor_id: Number(portfolioForm.vendor_id),
+        title: portfolioForm.title,
+        work_scope: portfolioForm.work_scope,
+        style: portfolioForm.style,
+        status: portfolioForm.status,
+      });
+      setPortfolioForm((prev) => ({ ...prev, title: "" }));
+      await refreshAll();
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : "포트폴리오 등록 실패");
+    }
+  }
+
+  async function publishPortfolio(portfolioId: number) {
+    try {
+      await adminUpdatePortfolioStatus(adminKey.trim(), portfolioId, "published");
+      await refreshAll();
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : "포트폴리오 상태 변경 실패");
+    }
+  }
+
+  return (
+    <section className="admin-panel">
+      <h2>포트폴리오 등록</h2>
+      <form className="admin-form" onSubmit={onCreatePortfolio}>
+        <input
+          value={portfolioForm.complex_id}
+          onChange={(e) => setPortfolioForm((prev) => ({ ...prev, complex_id: e.target.value }))}
+          placeholder="complex_id"
+        />
+        <input
+          value={portfolioForm.unit_type_id}
+          onChange={(e) => setPortfolioForm((prev) => ({ ...prev, unit_type_id: e.target.value }))}
+          placeholder="unit_type_id"
+        />
+        <input
+          value={portfolioForm.vendor_id}
+          onChange={(e) => setPortfolioForm((prev) => ({ ...prev, vendor_id: e.target.value }))}
+          placeholder="vendor_id"
+        />
+        <input
+          value={portfolioForm.title}
+          onChange={(e) => setPortfolioForm((prev) => ({ ...prev, title: e.target.value }))}
+          placeholder="포트폴리오 제목"
+          required
+        />
+        <input
+          value={portfolioForm.work_scope}
+          onChange={(e) => setPortfolioForm((prev) => ({ ...prev, work_scope: e.target.value }))}
+          placeholder="work_scope"
+          required
+        />
+        <input
+          value={portfolioForm.style}
+          onChange={(e) => setPortfolioForm((prev) => ({ ...prev, style: e.target.value }))}
+          placeholder="style"
+          required
+        />
+        <select
+          value={portfolioForm.status}
+          onChange={(e) => setPortfolioForm((prev) => ({ ...prev, status: e.target.value as PublishStatus }))}
+        >
+          <option value="draft">draft</option>
+          <option value="review">review</option>
+          <option value="published">published</option>
+        </select>
+        <button type="submit">포트폴리오 저장</button>
+      </form>
+
+      <div className="admin-list">
+        {portfolios.map((item) => (
+          <article key={item.portfolio_id} className="admin-card">
+            <h3>{item.title}</h3>
+            <p>
+              #{item.portfolio_id} / status: <strong>{item.status}</strong>
+            </p>
+            <button onClick={() => void publishPortfolio(item.portfolio_id)}>발행 처리</button>
+          </article>
+        ))}
+      </div>
+    </section>
+  );
+}
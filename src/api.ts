@@ -1,3 +1,4 @@
+import { styleList } from "./format";
 import type {
   AuthTokenResponse,
   AuthUser,
@@ -9,12 +10,21 @@ import type {
   AdminPortfolio,
   AdminPortfolioCreateInput,
   PublishStatus,
+  ClusterComplexesResponse,
   ComplexDetailResponse,
+  ComplexSearchResponse,
+  CostSampleResponse,
   MapPinsResponse,
   NearbyComplexesResponse,
+  PortfolioDetailResponse,
   PortfolioFilters,
   PortfolioListResponse,
+  PortfolioSort,
   QuoteRequestResponse,
+  SavedSearch,
+  SavedSearchCreateInput,
+  SavedSearchListResponse,
+  SimilarUnitTypeResponse,
 } from "./types";
 
 const API_BASE = import.meta.env.VITE_API_BASE ?? "/api/v1";
@@ -29,6 +39,24 @@ async function readErrorMessage(res: Response, fallback: string): Promise<string
   return fallback;
 }
 
+export interface PortfolioPageQuery {
+  limit: number;
+  offset: number;
+  sort?: PortfolioSort;
+  // Only used by the "favorite_vendors" sort.
+  preferred_vendor_ids?: number[];
+}
+
+export interface SimilarLayoutQuery {
+  exclude_complex_id: number;
+  min_area: number;
+  max_area: number;
+  room_count?: number;
+  bathroom_count?: number;
+  structure_keyword?: string;
+  limit?: number;
+}
+
 export interface BoundsQuery {
   south: number;
   west: number;
@@ -37,14 +65,35 @@ export interface BoundsQuery {
   zoom: number;
 }
 
-function buildUrl(path: string, query?: Record<string, string>) {
+// Array values become repeated params (style=a&style=b).
+type QueryParams = Record<string, string | string[]>;
+
+function buildUrl(path: string, query?: QueryParams) {
   if (!query) {
     return `${API_BASE}${path}`;
   }
-  const qs = new URLSearchParams(query).toString();
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach((x) => params.append(key, x));
+  });
+  const qs = params.toString();
   return `${API_BASE}${path}?${qs}`;
 }
 
+function appendFilterQuery(query: QueryParams, filters?: PortfolioFilters) {
+  if (!filters) return query;
+  if (filters.min_area !== undefined) query.min_area = String(filters.min_area);
+  if (filters.max_area !== undefined) query.max_area = String(filters.max_area);
+  if (filters.budget_min_krw !== undefined) query.budget_min_krw = String(filters.budget_min_krw);
+  if (filters.budget_max_krw !== undefined) query.budget_max_krw = String(filters.budget_max_krw);
+  if (filters.work_scope) query.work_scope = filters.work_scope;
+  if (filters.style) query.style = styleList(filters.style);
+  if (filters.min_duration_days !== undefined) query.min_duration_days = String(filters.min_duration_days);
+  if (filters.max_duration_days !== undefined) query.max_duration_days = String(filters.max_duration_days);
+  if (filters.vendor_id !== undefined) query.vendor_id = String(filters.vendor_id);
+  return query;
+}
+
 function adminHeaders(adminKey: string) {
   return {
     "Content-Type": "application/json",
@@ -52,40 +101,52 @@ function adminHeaders(adminKey: string) {
   };
 }
 
-export async function fetchMapPins(
-  bounds: BoundsQuery,
-  filters?: Pick<PortfolioFilters, "vendor_id" | "work_scope" | "min_area">,
-): Promise<MapPinsResponse> {
-  const query: Record<string, string> = {
+function mapPinQuery(bounds: BoundsQuery, filters?: PortfolioFilters): QueryParams {
+  const query: QueryParams = {
     south: String(bounds.south),
     west: String(bounds.west),
     north: String(bounds.north),
     east: String(bounds.east),
     zoom: String(bounds.zoom),
   };
-  if (filters?.vendor_id !== undefined) query.vendor_id = String(filters.vendor_id);
-  if (filters?.work_scope) query.work_scope = filters.work_scope;
-  if (filters?.min_area !== undefined) query.min_area = String(filters.min_area);
-  const url = buildUrl("/map/pins", query);
-  const res = await fetch(url);
+  return appendFilterQuery(query, filters);
+}
+
+export async function fetchMapPins(
+  bounds: BoundsQuery,
+  filters?: PortfolioFilters,
+  init?: { signal?: AbortSignal },
+): Promise<MapPinsResponse> {
+  const url = buildUrl("/map/pins", mapPinQuery(bounds, filters));
+  const res = await fetch(url, { signal: init?.signal });
   if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to fetch map pins"));
   return res.json();
 }
 
+export async function fetchClusterComplexes(
+  clusterKey: string,
+  bounds: BoundsQuery,
+  filters?: PortfolioFilters,
+  init?: { signal?: AbortSignal },
+): Promise<ClusterComplexesResponse> {
+  const url = buildUrl(`/map/clusters/${encodeURIComponent(clusterKey)}/complexes`, mapPinQuery(bounds, filters));
+  const res = await fetch(url, { signal: init?.signal });
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to fetch cluster complexes"));
+  return res.json();
+}
+
 export async function fetchNearbyComplexes(
   latitude: number,
   longitude: number,
   radiusM: number,
-  filters?: Pick<PortfolioFilters, "vendor_id" | "work_scope" | "min_area">,
+  filters?: PortfolioFilters,
 ): Promise<NearbyComplexesResponse> {
-  const query: Record<string, string> = {
+  const query: QueryParams = {
     lat: String(latitude),
     lng: String(longitude),
     radius_m: String(radiusM),
   };
-  if (filters?.vendor_id !== undefined) query.vendor_id = String(filters.vendor_id);
-  if (filters?.work_scope) query.work_scope = filters.work_scope;
-  if (filters?.min_area !== undefined) query.min_area = String(filters.min_area);
+  appendFilterQuery(query, filters);
   const res = await fetch(
     buildUrl("/map/nearby", query),
   );
@@ -93,6 +154,12 @@ export async function fetchNearbyComplexes(
   return res.json();
 }
 
+export async function searchComplexes(keyword: string, limit = 8): Promise<ComplexSearchResponse> {
+  const res = await fetch(buildUrl("/complexes/search", { q: keyword, limit: String(limit) }));
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to search complexes"));
+  return res.json();
+}
+
 export async function fetchComplexDetail(complexId: number): Promise<ComplexDetailResponse> {
   const res = await fetch(buildUrl(`/complexes/${complexId}`));
   if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to fetch complex detail"));
@@ -103,26 +170,68 @@ export async function fetchPortfolios(
   complexId: number,
   unitTypeId: number,
   filters: PortfolioFilters,
+  page: PortfolioPageQuery = { limit: 30, offset: 0 },
+  init?: { signal?: AbortSignal },
 ): Promise<PortfolioListResponse> {
-  const query: Record<string, string> = {
+  const query: QueryParams = {
     unit_type_id: String(unitTypeId),
-    limit: "30",
-    offset: "0",
+    limit: String(page.limit),
+    offset: String(page.offset),
   };
+  appendFilterQuery(query, filters);
+  if (page.sort && page.sort !== "recommended") query.sort = page.sort;
+  if (page.sort === "favorite_vendors" && page.preferred_vendor_ids?.length) {
+    query.preferred_vendor_ids = page.preferred_vendor_ids.join(",");
+  }
 
-  if (filters.min_area !== undefined) query.min_area = String(filters.min_area);
-  if (filters.max_area !== undefined) query.max_area = String(filters.max_area);
-  if (filters.budget_min_krw !== undefined) query.budget_min_krw = String(filters.budget_min_krw);
-  if (filters.budget_max_krw !== undefined) query.budget_max_krw = String(filters.budget_max_krw);
-  if (filters.work_scope) query.work_scope = filters.work_scope;
-  if (filters.style) query.style = filters.style;
-  if (filters.vendor_id !== undefined) query.vendor_id = String(filters.vendor_id);
-
-  const res = await fetch(buildUrl(`/complexes/${complexId}/portfolios`, query));
+  const res = await fetch(buildUrl(`/complexes/${complexId}/portfolios`, query), { signal: init?.signal });
   if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to fetch portfolios"));
   return res.json();
 }
 
+// Samples cover the given unit type plus similar-sized types in nearby complexes.
+export async function fetchCostSamples(
+  complexId: number,
+  unitTypeId: number,
+  init?: { signal?: AbortSignal },
+): Promise<CostSampleResponse> {
+  const url = buildUrl(`/complexes/${complexId}/unit-types/${unitTypeId}/cost-samples`);
+  const res = await fetch(url, { signal: init?.signal });
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to fetch cost samples"));
+  return res.json();
+}
+
+export async function fetchSimilarUnitTypes(
+  params: SimilarLayoutQuery,
+  init?: { signal?: AbortSignal },
+): Promise<SimilarUnitTypeResponse> {
+  const query: QueryParams = {
+    exclude_complex_id: String(params.exclude_complex_id),
+    min_area: String(params.min_area),
+    max_area: String(params.max_area),
+    limit: String(params.limit ?? 20),
+  };
+  if (params.room_count != null) query.room_count = String(params.room_count);
+  if (params.bathroom_count != null) query.bathroom_count = String(params.bathroom_count);
+  if (params.structure_keyword) query.structure_keyword = params.structure_keyword;
+
+  const res = await fetch(buildUrl("/unit-types/similar", query), { signal: init?.signal });
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to fetch similar unit types"));
+  return res.json();
+}
+
+export async function fetchPortfolioDetail(portfolioId: number): Promise<PortfolioDetailResponse> {
+  const res = await fetch(buildUrl(`/portfolios/${portfolioId}`));
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to fetch portfolio detail"));
+  return res.json();
+}
+
+export async function fetchFavorites(userKey: string): Promise<PortfolioListResponse> {
+  const res = await fetch(buildUrl("/favorites", { user_key: userKey }));
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to fetch favorites"));
+  return res.json();
+}
+
 export async function saveFavorite(userKey: string, portfolioId: number): Promise<void> {
   const res = await fetch(buildUrl("/favorites"), {
     method: "POST",
@@ -132,6 +241,42 @@ export async function saveFavorite(userKey: string, portfolioId: number): Promis
   if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to save favorite"));
 }
 
+export async function fetchSavedSearches(token: string): Promise<SavedSearchListResponse> {
+  const res = await fetch(buildUrl("/saved-searches"), {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to fetch saved searches"));
+  return res.json();
+}
+
+export async function createSavedSearch(token: string, payload: SavedSearchCreateInput): Promise<SavedSearch> {
+  const res = await fetch(buildUrl("/saved-searches"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to save search"));
+  return res.json();
+}
+
+export async function deleteSavedSearch(token: string, savedSearchId: number): Promise<void> {
+  const res = await fetch(buildUrl(`/saved-searches/${savedSearchId}`), {
+    method: "DELETE",
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to delete saved search"));
+}
+
+// Resets new_portfolio_count by moving last_viewed_at to now.
+export async function markSavedSearchViewed(token: string, savedSearchId: number): Promise<SavedSearch> {
+  const res = await fetch(buildUrl(`/saved-searches/${savedSearchId}/viewed`), {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to update saved search"));
+  return res.json();
+}
+
 export async function signup(input: {
   email: string;
   password: string;
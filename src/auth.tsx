@@ -0,0 +1,87 @@
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+
+import { fetchMe, logout } from "./api";
+import type { AuthTokenResponse, AuthUser } from "./types";
+
+const AUTH_TOKEN_KEY = "planifit.auth.token";
+
+interface AuthContextValue {
+  authToken: string;
+  currentUser: AuthUser | null;
+  guestMode: boolean;
+  setGuestMode: (guest: boolean) => void;
+  signIn: (result: AuthTokenResponse) => void;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [authToken, setAuthToken] = useState(() => window.localStorage.getItem(AUTH_TOKEN_KEY) ?? "");
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  const [guestMode, setGuestMode] = useState(false);
+
+  useEffect(() => {
+    if (!authToken) {
+      setCurrentUser(null);
+      return;
+    }
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const me = await fetchMe(authToken);
+        if (cancelled) return;
+        setCurrentUser(me);
+        window.localStorage.setItem(AUTH_TOKEN_KEY, authToken);
+      } catch {
+        if (cancelled) return;
+        setCurrentUser(null);
+        setAuthToken("");
+        window.localStorage.removeItem(AUTH_TOKEN_KEY);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [authToken]);
+
+  useEffect(() => {
+    if (currentUser) setGuestMode(false);
+  }, [currentUser]);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      authToken,
+      currentUser,
+      guestMode,
+      setGuestMode,
+      signIn: (result) => {
+        setAuthToken(result.access_token);
+        setCurrentUser(result.user);
+        window.localStorage.setItem(AUTH_TOKEN_KEY, result.access_token);
+      },
+      signOut: async () => {
+        if (authToken) {
+          try {
+            await logout(authToken);
+          } catch {
+            // ignore logout errors
+          }
+        }
+        setAuthToken("");
+        setCurrentUser(null);
+        window.localStorage.removeItem(AUTH_TOKEN_KEY);
+      },
+    }),
+    [authToken, currentUser, guestMode],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const value = useContext(AuthContext);
+  if (!value) throw new Error("useAuth must be used inside AuthProvider");
+  return value;
+}
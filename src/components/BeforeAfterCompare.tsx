@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState, type KeyboardEvent, type PointerEvent } from "react";
+
+type CompareLayout = "overlay" | "side";
+
+export default function BeforeAfterCompare({ beforeUrls, afterUrls }: { beforeUrls: string[]; afterUrls: string[] }) {
+  const [layout, setLayout] = useState<CompareLayout>("overlay");
+  const [index, setIndex] = useState(0);
+  const [divider, setDivider] = useState(50);
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const draggingRef = useRef(false);
+
+  const pairCount = Math.max(beforeUrls.length, afterUrls.length);
+  const before = beforeUrls[index] ?? null;
+  const after = afterUrls[index] ?? null;
+
+  useEffect(() => {
+    setIndex(0);
+    setDivider(50);
+  }, [beforeUrls, afterUrls]);
+
+  function moveDivider(clientX: number) {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setDivider(Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100)));
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLDivElement>) {
+    draggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveDivider(e.clientX);
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLDivElement>) {
+    if (draggingRef.current) moveDivider(e.clientX);
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLDivElement>) {
+    draggingRef.current = false;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  }
+
+  function onKeyDown(e: KeyboardEvent<HTMLDivElement>) {
+    if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+    e.preventDefault();
+    setDivider((prev) => Math.max(0, Math.min(100, prev + (e.key === "ArrowLeft" ? -5 : 5))));
+  }
+
+  if (pairCount === 0) return <p className="state">비교할 사진이 없습니다.</p>;
+
+  return (
+    <div className="compare">
+      <div className="compare-toolbar">
+        <div className="pin-gallery-tabs">
+          <button className={layout === "overlay" ? "active" : ""} onClick={() => setLayout("overlay")}>
+            슬라이더
+          </button>
+          <button className={layout === "side" ? "active" : ""} onClick={() => setLayout("side")}>
+            나란히
+          </button>
+        </div>
+        {pairCount > 1 ? (
+          <div className="compare-pager">
+            <button onClick={() => setIndex((prev) => (prev - 1 + pairCount) % pairCount)} aria-label="이전 사진">
+              ‹
+            </button>
+            <span>
+              {index + 1} / {pairCount}
+            </span>
+            <button onClick={() => setIndex((prev) => (prev + 1) % pairCount)} aria-label="다음 사진">
+              ›
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      {before && after && layout === "overlay" ? (
+        <div
+          ref={stageRef}
+          className="compare-stage"
+          role="slider"
+          tabIndex={0}
+          aria-label="Before/After 비교 위치"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(divider)}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerUp}
+          onKeyDown={onKeyDown}
+        >
+          <img src={after} alt={`after-${index + 1}`} draggable={false} />
+          <img
+            className="compare-before"
+            src={before}
+            alt={`before-${index + 1}`}
+            draggable={false}
+            style={{ clipPath: `inset(0 ${100 - divider}% 0 0)` }}
+          />
+          <div className="compare-divider" style={{ left: `${divider}%` }} />
+          <span className="compare-label before">Before</span>
+          <span className="compare-label after">After</span>
+        </div>
+      ) : (
+        <div className="compare-side">
+          {[
+            { side: "Before", url: before },
+            { side: "After", url: after },
+          ].map(({ side, url }) => (
+            <figure key={side}>
+              {url ? (
+                <img src={url} alt={`${side.toLowerCase()}-${index + 1}`} loading="lazy" />
+              ) : (
+                <div className="compare-missing">{side} 사진 없음</div>
+              )}
+              <figcaption>{side}</figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+      {beforeUrls.length !== afterUrls.length ? (
+        <p className="compare-note">
+          Before {beforeUrls.length}장 · After {afterUrls.length}장이라 일부 사진은 짝 없이 표시됩니다.
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { distanceLabel } from "../format";
+import type { ComplexPin } from "../types";
+
+export default function ClusterPopover({
+  count,
+  items,
+  error,
+  distanceCaption,
+  onSelect,
+}: {
+  count: number;
+  items: ComplexPin[] | null;
+  error: string | null;
+  distanceCaption: string;
+  onSelect: (item: ComplexPin) => void;
+}) {
+  return (
+    <div className="cluster-popover">
+      <p className="cluster-popover-head">
+        단지 {items?.length ?? count}개 <span>{distanceCaption}</span>
+      </p>
+      {error ? <p className="cluster-popover-state">{error}</p> : null}
+      {!error && !items ? <p className="cluster-popover-state">단지 목록을 불러오는 중입니다.</p> : null}
+      {items && items.length === 0 ? <p className="cluster-popover-state">표시할 단지가 없습니다.</p> : null}
+      {items && items.length > 0 ? (
+        <ul>
+          {items.map((item) => (
+            <li key={item.complex_id}>
+              <button type="button" onClick={() => onSelect(item)}>
+                <strong>{item.name}</strong>
+                <span>
+                  사례 {item.portfolio_count}건
+                  {item.distance_m != null ? ` · ${distanceLabel(item.distance_m)}` : ""}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
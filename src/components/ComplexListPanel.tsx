@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { distanceLabel } from "../format";
+import type { ComplexPin } from "../types";
+
+const ROW_HEIGHT = 48;
+const OVERSCAN_ROWS = 6;
+
+type ComplexSortKey = "distance" | "portfolio_count" | "name";
+
+const SORT_OPTIONS: { value: ComplexSortKey; label: string }[] = [
+  { value: "distance", label: "가까운 순" },
+  { value: "portfolio_count", label: "사례 많은 순" },
+  { value: "name", label: "이름 순" },
+];
+
+function sortComplexes(items: ComplexPin[], sortKey: ComplexSortKey): ComplexPin[] {
+  const sorted = [...items];
+  if (sortKey === "distance") {
+    sorted.sort((a, b) => (a.distance_m ?? Infinity) - (b.distance_m ?? Infinity));
+  } else if (sortKey === "portfolio_count") {
+    sorted.sort((a, b) => b.portfolio_count - a.portfolio_count || a.name.localeCompare(b.name, "ko"));
+  } else {
+    sorted.sort((a, b) => a.name.localeCompare(b.name, "ko"));
+  }
+  return sorted;
+}
+
+export default function ComplexListPanel({
+  items,
+  unlistedCount,
+  selectedComplexId,
+  hoveredComplexId,
+  onHover,
+  onSelect,
+}: {
+  items: ComplexPin[];
+  unlistedCount: number;
+  selectedComplexId: number | null;
+  hoveredComplexId: number | null;
+  onHover: (complexId: number | null) => void;
+  onSelect: (item: ComplexPin) => void;
+}) {
+  const hasDistance = items.some((x) => x.distance_m != null);
+  const [sortKey, setSortKey] = useState<ComplexSortKey>("portfolio_count");
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(ROW_HEIGHT * 6);
+  const viewportRef = useRef<HTMLDivElement | null>(null);
+  const rowHoverRef = useRef(false);
+
+  const effectiveSortKey = sortKey === "distance" && !hasDistance ? "portfolio_count" : sortKey;
+  const sorted = useMemo(() => sortComplexes(items, effectiveSortKey), [items, effectiveSortKey]);
+
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Scrolls a marker-hovered complex into view, but not while the pointer is over the list itself.
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el || hoveredComplexId == null || rowHoverRef.current) return;
+    const index = sorted.findIndex((x) => x.complex_id === hoveredComplexId);
+    if (index < 0) return;
+    const top = index * ROW_HEIGHT;
+    if (top < el.scrollTop) {
+      el.scrollTop = top;
+    } else if (top + ROW_HEIGHT > el.scrollTop + el.clientHeight) {
+      el.scrollTop = top + ROW_HEIGHT - el.clientHeight;
+    }
+  }, [hoveredComplexId, sorted]);
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const end = Math.min(sorted.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visible = sorted.slice(start, end);
+
+  return (
+    <div className="complex-list">
+      <div className="complex-list-head">
+        <strong>
+          지도 안 단지 {items.length}개
+          {unlistedCount > 0 ? <span>묶음 표시된 {unlistedCount}곳 제외</span> : null}
+        </strong>
+        <select value={effectiveSortKey} onChange={(e) => setSortKey(e.target.value as ComplexSortKey)}>
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value} disabled={option.value === "distance" && !hasDistance}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div
+        className="complex-list-viewport"
+        ref={viewportRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onMouseEnter={() => {
+          rowHoverRef.current = true;
+        }}
+        onMouseLeave={() => {
+          rowHoverRef.current = false;
+          onHover(null);
+        }}
+      >
+        {sorted.length === 0 ? <p className="complex-list-empty">현재 지도 범위에 표시할 단지가 없습니다.</p> : null}
+        <ul style={{ height: sorted.length * ROW_HEIGHT }}>
+          {visible.map((item, idx) => {
+            const classes = ["complex-list-row"];
+            if (item.complex_id === selectedComplexId) classes.push("active");
+            if (item.complex_id === hoveredComplexId) classes.push("hovered");
+            return (
+              <li
+                key={item.complex_id}
+                className={classes.join(" ")}
+                style={{ top: (start + idx) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                onMouseEnter={() => onHover(item.complex_id)}
+                onClick={() => onSelect(item)}
+              >
+                <strong>{item.name}</strong>
+                <span>
+                  사례 {item.portfolio_count}건
+                  {item.distance_m != null ? ` · ${distanceLabel(item.distance_m)}` : ""}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
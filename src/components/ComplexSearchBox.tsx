@@ -0,0 +1,163 @@
+import { useEffect, useState, type KeyboardEvent } from "react";
+
+import { searchComplexes } from "../api";
+import type { ComplexSearchItem } from "../types";
+
+const RECENT_SEARCHES_KEY = "hometypemap.recent_complex_searches";
+const MAX_RECENT_SEARCHES = 6;
+
+function readRecentSearches(): ComplexSearchItem[] {
+  try {
+    const raw = window.localStorage.getItem(RECENT_SEARCHES_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (x): x is ComplexSearchItem =>
+        x && Number.isInteger(x.complex_id) && typeof x.name === "string" && typeof x.latitude === "number" && typeof x.longitude === "number",
+    );
+  } catch {
+    // ignore localStorage parse errors
+    return [];
+  }
+}
+
+export default function ComplexSearchBox({ onSelect }: { onSelect: (item: ComplexSearchItem) => void }) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ComplexSearchItem[]>([]);
+  // Keyword the current results belong to; they stay on screen while the next search is debounced or loading.
+  const [resultsKeyword, setResultsKeyword] = useState("");
+  const [recent, setRecent] = useState<ComplexSearchItem[]>(readRecentSearches);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const keyword = query.trim();
+  const suggestions = keyword ? results : recent;
+
+  useEffect(() => {
+    window.localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent));
+  }, [recent]);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+    if (!keyword) {
+      setResults([]);
+      setResultsKeyword("");
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const run = async () => {
+      try {
+        const data = await searchComplexes(keyword);
+        if (cancelled) return;
+        setResults(data.items);
+        setResultsKeyword(keyword);
+        setError(null);
+      } catch (e) {
+        if (cancelled) return;
+        setResults([]);
+        setResultsKeyword(keyword);
+        setError(e instanceof Error ? e.message : "단지 검색에 실패했습니다.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    const id = setTimeout(run, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+    };
+  }, [keyword]);
+
+  function choose(item: ComplexSearchItem) {
+    setRecent((prev) => [item, ...prev.filter((x) => x.complex_id !== item.complex_id)].slice(0, MAX_RECENT_SEARCHES));
+    setQuery("");
+    setOpen(false);
+    onSelect(item);
+  }
+
+  function onKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (suggestions.length === 0) return;
+      setOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((prev) => (prev + step + suggestions.length) % suggestions.length);
+      return;
+    }
+    if (e.key === "Enter") {
+      if (keyword && resultsKeyword !== keyword) {
+        e.preventDefault();
+        return;
+      }
+      const item = suggestions[activeIndex] ?? (keyword ? suggestions[0] : undefined);
+      if (!item) return;
+      e.preventDefault();
+      choose(item);
+      return;
+    }
+    if (e.key === "Escape") {
+      setOpen(false);
+      setActiveIndex(-1);
+    }
+  }
+
+  return (
+    <div className="complex-search">
+      <input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        placeholder="단지명 또는 주소 검색"
+        role="combobox"
+        aria-expanded={open && suggestions.length > 0}
+        aria-controls="complex-search-list"
+        aria-activedescendant={activeIndex >= 0 ? `complex-search-${suggestions[activeIndex]?.complex_id}` : undefined}
+      />
+      {open && (suggestions.length > 0 || loading || error || keyword) ? (
+        <ul id="complex-search-list" className="complex-search-list" role="listbox">
+          {!keyword && recent.length > 0 ? (
+            <li className="complex-search-caption">
+              최근 검색
+              <button type="button" onMouseDown={(e) => e.preventDefault()} onClick={() => setRecent([])}>
+                지우기
+              </button>
+            </li>
+          ) : null}
+          {suggestions.map((item, idx) => (
+            <li
+              key={item.complex_id}
+              id={`complex-search-${item.complex_id}`}
+              role="option"
+              aria-selected={idx === activeIndex}
+              className={idx === activeIndex ? "active" : ""}
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(idx)}
+              onClick={() => choose(item)}
+            >
+              <strong>{item.name}</strong>
+              <span>{item.address ?? `사례 ${item.portfolio_count}건`}</span>
+            </li>
+          ))}
+          {keyword && loading ? <li className="complex-search-caption">검색 중...</li> : null}
+          {keyword && error ? <li className="complex-search-caption">{error}</li> : null}
+          {keyword && !loading && !error && results.length === 0 ? (
+            <li className="complex-search-caption">검색 결과가 없습니다.</li>
+          ) : null}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
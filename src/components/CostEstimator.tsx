@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { fetchCostSamples } from "../api";
+import { costStats, estimateRange, type CostStats } from "../costEstimate";
+import { manwonLabel, priceLabel, workScopeLabel } from "../format";
+import { isAbortError } from "../pinCache";
+import type { CostSample, UnitTypeChip, WorkScopeType } from "../types";
+
+const WORK_SCOPES: WorkScopeType[] = ["full_remodeling", "partial", "kitchen", "bathroom"];
+
+function StatsRow({ label, stats }: { label: string; stats: CostStats | null }) {
+  return (
+    <tr>
+      <th scope="row">{label}</th>
+      {stats ? (
+        <>
+          <td>{stats.count}건</td>
+          <td>{manwonLabel(stats.min)}</td>
+          <td>{manwonLabel(stats.median)}</td>
+          <td>{manwonLabel(stats.max)}</td>
+          <td>{manwonLabel(stats.perM2Median)}</td>
+        </>
+      ) : (
+        <td colSpan={5}>사례 없음</td>
+      )}
+    </tr>
+  );
+}
+
+export default function CostEstimator({
+  complexId,
+  unitType,
+  defaultScope,
+}: {
+  complexId: number;
+  unitType: UnitTypeChip;
+  defaultScope?: WorkScopeType;
+}) {
+  const [samples, setSamples] = useState<CostSample[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scope, setScope] = useState<WorkScopeType>(defaultScope ?? "full_remodeling");
+  const [areaInput, setAreaInput] = useState(String(Math.round(unitType.exclusive_area_m2)));
+
+  useEffect(() => {
+    setAreaInput(String(Math.round(unitType.exclusive_area_m2)));
+  }, [unitType.exclusive_area_m2]);
+
+  useEffect(() => {
+    if (defaultScope) setScope(defaultScope);
+  }, [defaultScope]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const controller = new AbortController();
+    const run = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await fetchCostSamples(complexId, unitType.unit_type_id, { signal: controller.signal });
+        if (cancelled) return;
+        setSamples(data.items);
+      } catch (e) {
+        if (cancelled || isAbortError(e)) return;
+        setSamples([]);
+        setError(e instanceof Error ? e.message : "시공비 사례를 불러오지 못했습니다.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [complexId, unitType.unit_type_id]);
+
+  const scoped = useMemo(() => samples.filter((x) => x.work_scope === scope), [samples, scope]);
+  const complexStats = useMemo(() => costStats(scoped.filter((x) => x.same_complex)), [scoped]);
+  const nearbyStats = useMemo(() => costStats(scoped.filter((x) => !x.same_complex)), [scoped]);
+  const allStats = useMemo(() => costStats(scoped), [scoped]);
+  // Kept as text so a cleared field reads as "no area yet" rather than 0㎡.
+  const areaM2 = areaInput.trim() === "" ? null : Number(areaInput);
+  const areaValid = areaM2 != null && Number.isFinite(areaM2) && areaM2 > 0;
+  const estimate = allStats && areaValid ? estimateRange(allStats, areaM2) : null;
+
+  return (
+    <section className="cost-estimator">
+      <div className="floor-plan-head">
+        <h3>시공비 계산기</h3>
+        <p>이 단지와 주변 비슷한 평형의 사례 기준</p>
+      </div>
+      <div className="cost-estimator-controls">
+        <label>
+          공사범위
+          <select value={scope} onChange={(e) => setScope(e.target.value as WorkScopeType)}>
+            {WORK_SCOPES.map((x) => (
+              <option key={x} value={x}>
+                {workScopeLabel(x)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          전용면적 (㎡)
+          <input
+            type="number"
+            min={10}
+            max={300}
+            value={areaInput}
+            onChange={(e) => setAreaInput(e.target.value)}
+          />
+        </label>
+      </div>
+
+      {loading ? <p className="state">시공비 사례를 불러오는 중...</p> : null}
+      {error ? <p className="state error">{error}</p> : null}
+      {!loading && !error ? (
+        <>
+          <table className="cost-table">
+            <thead>
+              <tr>
+                <th />
+                <th>사례</th>
+                <th>최저</th>
+                <th>중앙값</th>
+                <th>최고</th>
+                <th>㎡당</th>
+              </tr>
+            </thead>
+            <tbody>
+              <StatsRow label="이 단지" stats={complexStats} />
+              <StatsRow label="주변 유사 평형" stats={nearbyStats} />
+            </tbody>
+          </table>
+          {!areaValid ? (
+            <p className="cost-estimate">전용면적을 입력하면 예상 시공비를 계산합니다.</p>
+          ) : estimate ? (
+            <p className="cost-estimate">
+              {areaM2}㎡ {workScopeLabel(scope)} 예상 시공비
+              <strong>{priceLabel(estimate.min, estimate.max)}</strong>
+              <small>사례 {allStats?.count}건의 ㎡당 비용 중간 50% 구간 기준</small>
+            </p>
+          ) : (
+            <p className="cost-estimate">{workScopeLabel(scope)} 사례가 없어 추정할 수 없습니다.</p>
+          )}
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+
+import { styleList, workScopeLabel } from "../format";
+import type { PortfolioFilters, WorkScopeType } from "../types";
+
+const AREA_RANGE = { min: 20, max: 200, step: 1 };
+const DURATION_RANGE = { min: 0, max: 120, step: 5 };
+const WORK_SCOPES: WorkScopeType[] = ["partial", "full_remodeling", "kitchen", "bathroom"];
+
+function RangeField({
+  label,
+  unit,
+  range,
+  low,
+  high,
+  onChange,
+}: {
+  label: string;
+  unit: string;
+  range: { min: number; max: number; step: number };
+  low?: number;
+  high?: number;
+  onChange: (low: number | undefined, high: number | undefined) => void;
+}) {
+  const lowValue = low ?? range.min;
+  const highValue = high ?? range.max;
+  // The slider ends mean "no bound", so they map back to undefined.
+  const emit = (nextLow: number, nextHigh: number) =>
+    onChange(nextLow <= range.min ? undefined : nextLow, nextHigh >= range.max ? undefined : nextHigh);
+
+  return (
+    <fieldset className="filter-field">
+      <legend>
+        {label}
+        <span>
+          {low === undefined && high === undefined
+            ? "전체"
+            : `${low ?? range.min}${unit} ~ ${high === undefined ? "" : `${high}${unit}`}`}
+        </span>
+      </legend>
+      <div className="filter-range">
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          value={lowValue}
+          aria-label={`${label} 최소`}
+          onChange={(e) => emit(Math.min(Number(e.target.value), highValue), highValue)}
+        />
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          value={highValue}
+          aria-label={`${label} 최대`}
+          onChange={(e) => emit(lowValue, Math.max(Number(e.target.value), lowValue))}
+        />
+      </div>
+    </fieldset>
+  );
+}
+
+function toManwon(krw?: number) {
+  return krw === undefined ? "" : String(Math.round(krw / 10000));
+}
+
+function fromManwon(raw: string) {
+  const value = Number(raw);
+  return raw.trim() === "" || !Number.isFinite(value) || value < 0 ? undefined : value * 10000;
+}
+
+export default function FilterDrawer({
+  filters,
+  styleOptions,
+  onApply,
+  onClose,
+}: {
+  filters: PortfolioFilters;
+  styleOptions: string[];
+  onApply: (filters: PortfolioFilters) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<PortfolioFilters>(filters);
+  const [budgetMin, setBudgetMin] = useState(toManwon(filters.budget_min_krw));
+  const [budgetMax, setBudgetMax] = useState(toManwon(filters.budget_max_krw));
+  const selectedStyles = styleList(draft.style);
+
+  function toggleStyle(style: string) {
+    const next = selectedStyles.includes(style) ? selectedStyles.filter((x) => x !== style) : [...selectedStyles, style];
+    setDraft((prev) => ({ ...prev, style: next.length > 0 ? next.join(",") : undefined }));
+  }
+
+  function resetDraft() {
+    setDraft({ vendor_id: filters.vendor_id });
+    setBudgetMin("");
+    setBudgetMax("");
+  }
+
+  function apply() {
+    let low = fromManwon(budgetMin);
+    let high = fromManwon(budgetMax);
+    if (low !== undefined && high !== undefined && low > high) [low, high] = [high, low];
+    const next: PortfolioFilters = { ...draft, budget_min_krw: low, budget_max_krw: high };
+    (Object.keys(next) as Array<keyof PortfolioFilters>).forEach((key) => {
+      if (next[key] === undefined) delete next[key];
+    });
+    onApply(next);
+  }
+
+  return (
+    <div className="filter-drawer-backdrop" onClick={onClose}>
+      <aside className="filter-drawer" onClick={(e) => e.stopPropagation()} aria-label="상세 필터">
+        <header>
+          <h3>상세 필터</h3>
+          <button type="button" onClick={onClose} aria-label="닫기">
+            ×
+          </button>
+        </header>
+
+        <fieldset className="filter-field">
+          <legend>공사 범위</legend>
+          <div className="filter-options">
+            {WORK_SCOPES.map((scope) => (
+              <button
+                key={scope}
+                type="button"
+                className={draft.work_scope === scope ? "active-chip" : ""}
+                onClick={() => setDraft((prev) => ({ ...prev, work_scope: prev.work_scope === scope ? undefined : scope }))}
+              >
+                {workScopeLabel(scope)}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+
+        <RangeField
+          label="전용면적"
+          unit="m²"
+          range={AREA_RANGE}
+          low={draft.min_area}
+          high={draft.max_area}
+          onChange={(low, high) => setDraft((prev) => ({ ...prev, min_area: low, max_area: high }))}
+        />
+
+        <fieldset className="filter-field">
+          <legend>시공비 (만원)</legend>
+          <div className="filter-budget">
+            <input
+              type="number"
+              min={0}
+              step={100}
+              inputMode="numeric"
+              value={budgetMin}
+              onChange={(e) => setBudgetMin(e.target.value)}
+              placeholder="최소"
+            />
+            <span>~</span>
+            <input
+              type="number"
+              min={0}
+              step={100}
+              inputMode="numeric"
+              value={budgetMax}
+              onChange={(e) => setBudgetMax(e.target.value)}
+              placeholder="최대"
+            />
+          </div>
+        </fieldset>
+
+        <fieldset className="filter-field">
+          <legend>스타일</legend>
+          <div className="filter-options">
+            {styleOptions.map((style) => (
+              <button
+                key={style}
+                type="button"
+                className={selectedStyles.includes(style) ? "active-chip" : ""}
+                aria-pressed={selectedStyles.includes(style)}
+                onClick={() => toggleStyle(style)}
+              >
+                {style}
+              </button>
+            ))}
+          </div>
+        </fieldset>
+
+        <RangeField
+          label="공사 기간"
+          unit="일"
+          range={DURATION_RANGE}
+          low={draft.min_duration_days}
+          high={draft.max_duration_days}
+          onChange={(low, high) => setDraft((prev) => ({ ...prev, min_duration_days: low, max_duration_days: high }))}
+        />
+
+        <footer>
+          <button type="button" className="ghost" onClick={resetDraft}>
+            초기화
+          </button>
+          <button type="button" className="solid" onClick={apply}>
+            적용
+          </button>
+        </footer>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+
+import { portfolioColors, type PortfolioPin } from "../portfolioMedia";
+import type { PortfolioCard, RoomCategory } from "../types";
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const GROUP_RADIUS_PX = 18;
+const DOUBLE_TAP_MS = 300;
+const TAP_SLOP_PX = 6;
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface PinGroup {
+  key: string;
+  x: number;
+  y: number;
+  pins: PortfolioPin[];
+}
+
+const INITIAL_VIEW: View = { scale: 1, x: 0, y: 0 };
+
+function clampScale(scale: number) {
+  return Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+}
+
+// The canvas is scaled from its top-left corner, so the offset may only move it left/up far
+// enough to keep the plan covering the whole stage.
+function clampView(view: View, width: number, height: number): View {
+  if (view.scale <= MIN_SCALE) return INITIAL_VIEW;
+  return {
+    scale: view.scale,
+    x: Math.max(width - width * view.scale, Math.min(0, view.x)),
+    y: Math.max(height - height * view.scale, Math.min(0, view.y)),
+  };
+}
+
+// Pins closer than GROUP_RADIUS_PX on screen collapse into one bubble; zooming in separates them.
+function groupPins(pins: PortfolioPin[], width: number, height: number, scale: number): PinGroup[] {
+  const groups: PinGroup[] = [];
+  pins.forEach((pin) => {
+    const hit =
+      width > 0
+        ? groups.find((g) => {
+            const anchor = g.pins[0];
+            const dx = ((anchor.x - pin.x) / 100) * width * scale;
+            const dy = ((anchor.y - pin.y) / 100) * height * scale;
+            return Math.hypot(dx, dy) <= GROUP_RADIUS_PX;
+          })
+        : undefined;
+    if (hit) hit.pins.push(pin);
+    else groups.push({ key: `${pin.portfolioId}-${pin.pinId}`, x: pin.x, y: pin.y, pins: [pin] });
+  });
+  groups.forEach((g) => {
+    g.x = g.pins.reduce((sum, p) => sum + p.x, 0) / g.pins.length;
+    g.y = g.pins.reduce((sum, p) => sum + p.y, 0) / g.pins.length;
+  });
+  return groups;
+}
+
+export default function FloorPlanViewer({
+  imageUrl,
+  fallbackUrl,
+  pins,
+  portfolios,
+  activePortfolioId,
+  activePinId,
+  highlightRoom = null,
+  onSelect,
+}: {
+  imageUrl: string | null;
+  fallbackUrl: string | null;
+  pins: PortfolioPin[];
+  portfolios: PortfolioCard[];
+  activePortfolioId: number | null;
+  activePinId: string | null;
+  highlightRoom?: RoomCategory | null;
+  onSelect: (pin: PortfolioPin) => void;
+}) {
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [openGroupKey, setOpenGroupKey] = useState<string | null>(null);
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<{ startX: number; startY: number; startDistance: number; startScale: number; moved: boolean } | null>(
+    null,
+  );
+  const lastTapRef = useRef<{ time: number; x: number; y: number } | null>(null);
+
+  const colors = useMemo(() => portfolioColors(portfolios), [portfolios]);
+  const groups = useMemo(() => groupPins(pins, size.width, size.height, view.scale), [pins, size, view.scale]);
+  const openGroup = groups.find((g) => g.key === openGroupKey && g.pins.length > 1) ?? null;
+
+  function isActive(pin: PortfolioPin) {
+    return pin.portfolioId === activePortfolioId && pin.pinId === activePinId;
+  }
+
+  function pinClassName(base: string, active: boolean, matched: boolean) {
+    let className = active ? `${base} active` : base;
+    if (highlightRoom) className += matched ? " matched" : " dimmed";
+    return className;
+  }
+
+  useEffect(() => {
+    const el = stageRef.current;
+    if (!el) return;
+    const measure = () => setSize({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setView(INITIAL_VIEW);
+    setOpenGroupKey(null);
+  }, [imageUrl]);
+
+  function zoomAround(nextScale: (prev: number) => number, clientX?: number, clientY?: number) {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const px = (clientX ?? rect.left + rect.width / 2) - rect.left;
+    const py = (clientY ?? rect.top + rect.height / 2) - rect.top;
+    setView((prev) => {
+      const scale = clampScale(nextScale(prev.scale));
+      const ratio = scale / prev.scale;
+      return clampView({ scale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio }, rect.width, rect.height);
+    });
+  }
+
+  const zoomed = view.scale > MIN_SCALE;
+
+  // React attaches wheel listeners as passive, so preventDefault() there cannot stop the page from scrolling.
+  // An unzoomed plan lets plain wheel scroll the page or bottom sheet; ctrl/meta+wheel (and trackpad pinch) zooms.
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!zoomed && !e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomAround((prev) => prev * (e.deltaY < 0 ? 1.15 : 1 / 1.15), e.clientX, e.clientY);
+    };
+    stage.addEventListener("wheel", onWheel, { passive: false });
+    return () => stage.removeEventListener("wheel", onWheel);
+  }, [zoomed]);
+
+  function pointerDistance() {
+    const [a, b] = Array.from(pointersRef.current.values());
+    return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+  }
+
+  function pointerMidpoint() {
+    const [a, b] = Array.from(pointersRef.current.values());
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLDivElement>) {
+    if ((e.target as HTMLElement).closest("button, .floor-plan-group-list")) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    gestureRef.current = {
+      startX: e.clientX,
+      startY: e.clientY,
+      startDistance: pointerDistance(),
+      startScale: view.scale,
+      moved: pointersRef.current.size > 1,
+    };
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLDivElement>) {
+    const previous = pointersRef.current.get(e.pointerId);
+    const gesture = gestureRef.current;
+    if (!previous || !gesture) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (Math.hypot(e.clientX - gesture.startX, e.clientY - gesture.startY) > TAP_SLOP_PX) gesture.moved = true;
+    if (pointersRef.current.size >= 2 && gesture.startDistance > 0) {
+      const mid = pointerMidpoint();
+      const target = gesture.startScale * (pointerDistance() / gesture.startDistance);
+      zoomAround(() => target, mid.x, mid.y);
+      return;
+    }
+    if (view.scale > MIN_SCALE) {
+      const width = size.width;
+      const height = size.height;
+      setView((prev) =>
+        clampView({ ...prev, x: prev.x + e.clientX - previous.x, y: prev.y + e.clientY - previous.y }, width, height),
+      );
+    }
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLDivElement>) {
+    const gesture = gestureRef.current;
+    if (!pointersRef.current.delete(e.pointerId)) return;
+    if (pointersRef.current.size > 0) {
+      gestureRef.current = { startX: e.clientX, startY: e.clientY, startDistance: 0, startScale: view.scale, moved: true };
+      return;
+    }
+    gestureRef.current = null;
+    if (!gesture || gesture.moved) return;
+
+    setOpenGroupKey(null);
+    const now = Date.now();
+    const last = lastTapRef.current;
+    if (last && now - last.time < DOUBLE_TAP_MS && Math.hypot(e.clientX - last.x, e.clientY - last.y) < 24) {
+      lastTapRef.current = null;
+      zoomAround((prev) => (prev > MIN_SCALE ? MIN_SCALE : 2), e.clientX, e.clientY);
+      return;
+    }
+    lastTapRef.current = { time: now, x: e.clientX, y: e.clientY };
+  }
+
+  const inverse = 1 / view.scale;
+
+  return (
+    <div className="floor-plan-viewer">
+      <div
+        ref={stageRef}
+        className={view.scale > MIN_SCALE ? "floor-plan-image-wrap floor-plan-stage zoomed" : "floor-plan-image-wrap floor-plan-stage"}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      >
+        <div
+          className="floor-plan-canvas"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        >
+          {imageUrl ? (
+            <img
+              src={imageUrl}
+              alt="선택 평형 평면도"
+              loading="lazy"
+              draggable={false}
+              onError={(e) => {
+                const img = e.currentTarget;
+                if (!fallbackUrl || img.src === fallbackUrl) return;
+                img.src = fallbackUrl;
+              }}
+            />
+          ) : (
+            <div className="floor-plan-missing">평면도 이미지가 아직 등록되지 않았습니다.</div>
+          )}
+          <div className="floor-plan-pin-layer">
+            {groups.map((group) => {
+              const pinStyle = { left: `${group.x}%`, top: `${group.y}%`, transform: `translate(-50%, -50%) scale(${inverse})` };
+              if (group.pins.length === 1) {
+                const pin = group.pins[0];
+                return (
+                  <button
+                    key={group.key}
+                    type="button"
+                    className={pinClassName("floor-plan-pin", isActive(pin), pin.room === highlightRoom)}
+                    style={{ ...pinStyle, background: colors.get(pin.portfolioId) }}
+                    onClick={() => onSelect(pin)}
+                    title={`${pin.title ?? "핀"} · #${pin.portfolioId}`}
+                  >
+                    ●
+                  </button>
+                );
+              }
+              return (
+                <button
+                  key={group.key}
+                  type="button"
+                  className={pinClassName(
+                    "floor-plan-pin floor-plan-group",
+                    group.pins.some(isActive),
+                    group.pins.some((pin) => pin.room === highlightRoom),
+                  )}
+                  style={pinStyle}
+                  onClick={() => setOpenGroupKey((prev) => (prev === group.key ? null : group.key))}
+                  aria-expanded={openGroupKey === group.key}
+                  title={`핀 ${group.pins.length}개`}
+                >
+                  {group.pins.length}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {openGroup ? (
+          <div
+            className="floor-plan-group-list"
+            style={{
+              left: view.x + (openGroup.x / 100) * size.width * view.scale,
+              top: view.y + (openGroup.y / 100) * size.height * view.scale,
+            }}
+          >
+            {openGroup.pins.map((pin) => (
+              <button
+                key={`${pin.portfolioId}-${pin.pinId}`}
+                type="button"
+                className={isActive(pin) ? "active" : ""}
+                onClick={() => {
+                  setOpenGroupKey(null);
+                  onSelect(pin);
+                }}
+              >
+                <i style={{ background: colors.get(pin.portfolioId) }} />
+                {pin.title ?? "핀"} · #{pin.portfolioId}
+              </button>
+            ))}
+          </div>
+        ) : null}
+
+        <div className="floor-plan-zoom">
+          <button type="button" onClick={() => zoomAround((prev) => prev * 1.5)} disabled={view.scale >= MAX_SCALE} aria-label="평면도 확대">
+            +
+          </button>
+          <button type="button" onClick={() => zoomAround((prev) => prev / 1.5)} disabled={view.scale <= MIN_SCALE} aria-label="평면도 축소">
+            −
+          </button>
+        </div>
+      </div>
+
+      {portfolios.length > 0 ? (
+        <ul className="floor-plan-legend">
+          {portfolios.map((card) => {
+            const firstPin = pins.find((x) => x.portfolioId === card.portfolio_id);
+            return (
+              <li key={card.portfolio_id}>
+                <button
+                  type="button"
+                  className={card.portfolio_id === activePortfolioId ? "active" : ""}
+                  onClick={() => firstPin && onSelect(firstPin)}
+                  disabled={!firstPin}
+                >
+                  <i style={{ background: colors.get(card.portfolio_id) }} />
+                  {card.title}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
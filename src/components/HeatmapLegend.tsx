@@ -0,0 +1,22 @@
+import { manwonLabel } from "../format";
+import { HEATMAP_COLORS, type HeatmapScale } from "../heatmapLayer";
+
+function valueLabel(scale: HeatmapScale, value: number) {
+  return scale.metric === "median_budget" ? manwonLabel(value) : `${value}건`;
+}
+
+export default function HeatmapLegend({ scale }: { scale: HeatmapScale }) {
+  const offset = HEATMAP_COLORS.length - scale.breaks.length;
+  return (
+    <div className="heatmap-legend">
+      <strong>{scale.metric === "median_budget" ? "예산 중앙값" : "포트폴리오 수"}</strong>
+      {scale.breaks.length === 0 ? <span>표시할 데이터가 없습니다.</span> : null}
+      {scale.breaks.map((limit, idx) => (
+        <span key={limit}>
+          <i style={{ background: HEATMAP_COLORS[offset + idx] }} />
+          {idx === 0 ? "~" : `${valueLabel(scale, scale.breaks[idx - 1])} ~`} {valueLabel(scale, limit)}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+
+export interface LightboxImage {
+  url: string;
+  label: string;
+  caption: string;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const SWIPE_THRESHOLD_PX = 60;
+
+function clampScale(scale: number) {
+  return Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+}
+
+export default function Lightbox({
+  images,
+  startIndex,
+  onClose,
+}: {
+  images: LightboxImage[];
+  startIndex: number;
+  onClose: () => void;
+}) {
+  const [index, setIndex] = useState(() => Math.max(0, Math.min(images.length - 1, startIndex)));
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<{ startX: number; startDistance: number; startScale: number } | null>(null);
+
+  const current = images[index];
+  const count = images.length;
+
+  function go(step: number) {
+    if (count < 2) return;
+    setIndex((prev) => (prev + step + count) % count);
+  }
+
+  function zoomBy(factor: number) {
+    setScale((prev) => {
+      const next = clampScale(prev * factor);
+      if (next === MIN_SCALE) setOffset({ x: 0, y: 0 });
+      return next;
+    });
+  }
+
+  useEffect(() => {
+    setScale(1);
+    setOffset({ x: 0, y: 0 });
+    [index - 1, index + 1].forEach((i) => {
+      const neighbour = images[(i + count) % count];
+      if (neighbour && neighbour !== current) new Image().src = neighbour.url;
+    });
+  }, [index, images]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowLeft") go(-1);
+      else if (e.key === "ArrowRight") go(1);
+      else if (e.key === "+" || e.key === "=") zoomBy(1.25);
+      else if (e.key === "-") zoomBy(0.8);
+      else return;
+      e.preventDefault();
+    };
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [count, onClose]);
+
+  // React registers wheel listeners as passive, so zooming has to use a native listener to
+  // keep the page from scrolling behind the overlay.
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? 1.15 : 1 / 1.15);
+    };
+    stage.addEventListener("wheel", onWheel, { passive: false });
+    return () => stage.removeEventListener("wheel", onWheel);
+  }, []);
+
+  function pointerDistance() {
+    const [a, b] = Array.from(pointersRef.current.values());
+    return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+  }
+
+  function onPointerDown(e: PointerEvent<HTMLDivElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    gestureRef.current = { startX: e.clientX, startDistance: pointerDistance(), startScale: scale };
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLDivElement>) {
+    const previous = pointersRef.current.get(e.pointerId);
+    if (!previous) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const gesture = gestureRef.current;
+    if (pointersRef.current.size >= 2 && gesture && gesture.startDistance > 0) {
+      setScale(clampScale(gesture.startScale * (pointerDistance() / gesture.startDistance)));
+      return;
+    }
+    if (scale > MIN_SCALE) {
+      setOffset((prev) => ({ x: prev.x + e.clientX - previous.x, y: prev.y + e.clientY - previous.y }));
+    }
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLDivElement>) {
+    const gesture = gestureRef.current;
+    const wasSingle = pointersRef.current.size === 1;
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size > 0) {
+      gestureRef.current = { startX: e.clientX, startDistance: 0, startScale: scale };
+      return;
+    }
+    gestureRef.current = null;
+    if (!gesture || !wasSingle || scale > MIN_SCALE) return;
+    const dx = e.clientX - gesture.startX;
+    if (Math.abs(dx) >= SWIPE_THRESHOLD_PX) go(dx < 0 ? 1 : -1);
+  }
+
+  if (!current) return null;
+
+  return (
+    <div className="lightbox" role="dialog" aria-modal="true" aria-label="사진 크게 보기">
+      <div className="lightbox-top">
+        <span>
+          {index + 1} / {count} · {current.label}
+        </span>
+        <div className="lightbox-actions">
+          <button onClick={() => zoomBy(0.8)} disabled={scale <= MIN_SCALE} aria-label="축소">
+            −
+          </button>
+          <button onClick={() => zoomBy(1.25)} disabled={scale >= MAX_SCALE} aria-label="확대">
+            +
+          </button>
+          <button onClick={onClose} aria-label="닫기">
+            ×
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={stageRef}
+        className={scale > MIN_SCALE ? "lightbox-stage zoomed" : "lightbox-stage"}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onDoubleClick={() => {
+          setScale((prev) => (prev > MIN_SCALE ? MIN_SCALE : 2));
+          setOffset({ x: 0, y: 0 });
+        }}
+      >
+        <img
+          src={current.url}
+          alt={current.caption}
+          draggable={false}
+          style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})` }}
+        />
+      </div>
+
+      {count > 1 ? (
+        <>
+          <button className="lightbox-nav prev" onClick={() => go(-1)} aria-label="이전 사진">
+            ‹
+          </button>
+          <button className="lightbox-nav next" onClick={() => go(1)} aria-label="다음 사진">
+            ›
+          </button>
+        </>
+      ) : null}
+
+      <p className="lightbox-caption">{current.caption}</p>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, type ReactNode } from "react";
+
+import { priceLabel, styleList, workScopeLabel } from "../format";
+import { FLOOR_PLAN_FALLBACK_URL, photoCount, portfolioPins } from "../portfolioMedia";
+import { Link } from "../router";
+import type { PortfolioCard } from "../types";
+
+export const MAX_COMPARE = 4;
+
+function placedPins(card: PortfolioCard) {
+  return portfolioPins(card).filter((pin) => pin.placed);
+}
+
+const ROWS: { label: string; value: (card: PortfolioCard) => ReactNode }[] = [
+  { label: "시공비", value: (card) => priceLabel(card.budget_min_krw, card.budget_max_krw) },
+  { label: "공사기간", value: (card) => (card.duration_days ? `${card.duration_days}일` : "기간 미정") },
+  { label: "공사범위", value: (card) => workScopeLabel(card.work_scope) },
+  { label: "스타일", value: (card) => styleList(card.style).join(" · ") || "-" },
+  { label: "시공 업체", value: (card) => card.vendor_name ?? "-" },
+  { label: "사진", value: (card) => `${photoCount(card)}장` },
+  { label: "포인트", value: (card) => (placedPins(card).length > 0 ? `${placedPins(card).length}곳` : "위치 미등록") },
+];
+
+export default function PortfolioCompare({
+  cards,
+  colors,
+  floorPlanUrl,
+  onRemove,
+  onClose,
+}: {
+  cards: PortfolioCard[];
+  colors: Map<number, string>;
+  floorPlanUrl: string | null;
+  onRemove: (portfolioId: number) => void;
+  onClose: () => void;
+}) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="quote-modal-backdrop" onClick={onClose}>
+      <section className="compare-view" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="사례 비교">
+        <div className="compare-view-head">
+          <h3>사례 비교 {cards.length}건</h3>
+          <button onClick={onClose} aria-label="닫기">
+            ×
+          </button>
+        </div>
+
+        <div className="floor-plan-image-wrap compare-floor-plan">
+          {floorPlanUrl ? (
+            <img
+              src={floorPlanUrl}
+              alt="비교 평면도"
+              onError={(e) => {
+                const img = e.currentTarget;
+                if (!FLOOR_PLAN_FALLBACK_URL || img.src === FLOOR_PLAN_FALLBACK_URL) return;
+                img.src = FLOOR_PLAN_FALLBACK_URL;
+              }}
+            />
+          ) : (
+            <div className="floor-plan-missing">평면도 이미지가 아직 등록되지 않았습니다.</div>
+          )}
+          <div className="floor-plan-pin-layer">
+            {cards.flatMap((card) =>
+              placedPins(card).map((pin, pinIdx) => (
+                <span
+                  key={`${card.portfolio_id}-${pin.pinId}`}
+                  className="floor-plan-pin compare-pin"
+                  style={{ left: `${pin.x}%`, top: `${pin.y}%`, background: colors.get(card.portfolio_id) }}
+                  title={`${card.title} · ${pin.title ?? `포인트 ${pinIdx + 1}`}`}
+                >
+                  {pinIdx + 1}
+                </span>
+              )),
+            )}
+          </div>
+        </div>
+
+        <div className="compare-table-wrap">
+          <table className="compare-table">
+            <thead>
+              <tr>
+                <th />
+                {cards.map((card) => (
+                  <th key={card.portfolio_id}>
+                    <span className="compare-swatch" style={{ background: colors.get(card.portfolio_id) }} />
+                    <Link to={`/portfolios/${card.portfolio_id}`}>{card.title}</Link>
+                    <button onClick={() => onRemove(card.portfolio_id)} aria-label={`${card.title} 비교에서 빼기`}>
+                      ×
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map((row) => (
+                <tr key={row.label}>
+                  <th scope="row">{row.label}</th>
+                  {cards.map((card) => (
+                    <td key={card.portfolio_id}>{row.value(card)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useMemo, useState } from "react";
+
+import { roomLabel } from "../format";
+import type { CardImageSide, PortfolioPin } from "../portfolioMedia";
+import type { PortfolioCard, RoomCategory } from "../types";
+import type { LightboxImage } from "./Lightbox";
+
+interface RoomPhoto {
+  url: string;
+  pin: PortfolioPin;
+  caption: string;
+}
+
+export default function RoomGallery({
+  room,
+  pins,
+  portfolios,
+  portfoliosTotal,
+  onOpenLightbox,
+  onSelectPin,
+}: {
+  room: RoomCategory;
+  pins: PortfolioPin[];
+  portfolios: PortfolioCard[];
+  portfoliosTotal: number;
+  onOpenLightbox: (images: LightboxImage[], index: number) => void;
+  onSelectPin: (pin: PortfolioPin) => void;
+}) {
+  const [side, setSide] = useState<CardImageSide>("after");
+
+  const roomPins = useMemo(() => pins.filter((x) => x.room === room), [pins, room]);
+  const photos = useMemo(() => {
+    const titles = new Map(portfolios.map((card) => [card.portfolio_id, card.title]));
+    const collect = (pick: (pin: PortfolioPin) => string[]): RoomPhoto[] =>
+      roomPins.flatMap((pin) =>
+        pick(pin).map((url) => ({
+          url,
+          pin,
+          caption: `${titles.get(pin.portfolioId) ?? `#${pin.portfolioId}`} · ${pin.title ?? roomLabel(room)}`,
+        })),
+      );
+    return { before: collect((pin) => pin.beforeImageUrls), after: collect((pin) => pin.afterImageUrls) };
+  }, [roomPins, portfolios, room]);
+
+  const visible = photos[side];
+  const portfolioCount = new Set(roomPins.map((x) => x.portfolioId)).size;
+
+  function openLightbox(idx: number) {
+    const label = side === "before" ? "Before" : "After";
+    onOpenLightbox(
+      visible.map((photo, i) => ({ url: photo.url, caption: photo.caption, label: `${label} ${i + 1}/${visible.length}` })),
+      idx,
+    );
+  }
+
+  return (
+    <div className="pin-gallery room-gallery">
+      <div className="pin-gallery-head">
+        <strong>{roomLabel(room)} 사진 모아보기</strong>
+        <span>
+          사례 {portfolioCount}건 · 포인트 {roomPins.length}곳
+        </span>
+      </div>
+      {portfolios.length < portfoliosTotal ? (
+        <p className="room-gallery-note">
+          불러온 사례 {portfolios.length}/{portfoliosTotal}건 기준입니다. 목록을 더 내리면 함께 추가됩니다.
+        </p>
+      ) : null}
+      <div className="pin-gallery-tabs">
+        <button className={side === "before" ? "active" : ""} onClick={() => setSide("before")}>
+          Before {photos.before.length}
+        </button>
+        <button className={side === "after" ? "active" : ""} onClick={() => setSide("after")}>
+          After {photos.after.length}
+        </button>
+      </div>
+      {visible.length === 0 ? (
+        <p className="state">{roomLabel(room)} 사진이 없습니다.</p>
+      ) : (
+        <div className="pin-gallery-grid room-gallery-grid">
+          {visible.map((photo, idx) => (
+            <figure key={`${photo.pin.portfolioId}-${photo.pin.pinId}-${idx}`}>
+              <img src={photo.url} alt={photo.caption} loading="lazy" onClick={() => openLightbox(idx)} />
+              <figcaption>
+                <button type="button" onClick={() => onSelectPin(photo.pin)}>
+                  {photo.caption}
+                </button>
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
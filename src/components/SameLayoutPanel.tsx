@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from "react";
+
+import { fetchPortfolios, fetchSimilarUnitTypes } from "../api";
+import { distanceLabel, priceLabel } from "../format";
+import { isAbortError } from "../pinCache";
+import { Link } from "../router";
+import type { PortfolioCard, SimilarUnitType, UnitTypeChip } from "../types";
+
+// Exclusive areas of one standard layout differ by a few m² between complexes.
+const AREA_BAND_M2 = 3;
+const PREVIEW_PORTFOLIOS = 4;
+
+type PreviewState = { status: "loading" } | { status: "error"; message: string } | { status: "ok"; items: PortfolioCard[] };
+
+function itemKey(item: SimilarUnitType) {
+  return `${item.complex_id}-${item.unit_type.unit_type_id}`;
+}
+
+export default function SameLayoutPanel({
+  complexId,
+  unitType,
+  onResults,
+  onOpen,
+  onShowAll,
+}: {
+  complexId: number;
+  unitType: UnitTypeChip;
+  onResults: (items: SimilarUnitType[]) => void;
+  onOpen: (item: SimilarUnitType) => void;
+  onShowAll: () => void;
+}) {
+  const [items, setItems] = useState<SimilarUnitType[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<Record<string, PreviewState>>({});
+  // Aborted with the result list so previews for a unit type the user left never land.
+  const previewAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const previewController = new AbortController();
+    previewAbortRef.current = previewController;
+    const run = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setExpandedKey(null);
+        setPreviews({});
+        const data = await fetchSimilarUnitTypes({
+          exclude_complex_id: complexId,
+          min_area: Math.max(0, unitType.exclusive_area_m2 - AREA_BAND_M2),
+          max_area: unitType.exclusive_area_m2 + AREA_BAND_M2,
+          room_count: unitType.room_count ?? undefined,
+          bathroom_count: unitType.bathroom_count ?? undefined,
+          structure_keyword: unitType.structure_keyword ?? undefined,
+        });
+        if (cancelled) return;
+        setItems(data.items);
+        onResults(data.items);
+      } catch (e) {
+        if (cancelled) return;
+        setItems([]);
+        onResults([]);
+        setError(e instanceof Error ? e.message : "같은 평면 단지를 불러오지 못했습니다.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+      previewController.abort();
+    };
+  }, [complexId, unitType]);
+
+  useEffect(() => () => onResults([]), []);
+
+  async function toggle(item: SimilarUnitType) {
+    const key = itemKey(item);
+    if (expandedKey === key) {
+      setExpandedKey(null);
+      return;
+    }
+    setExpandedKey(key);
+    if (previews[key]?.status === "ok") return;
+    const signal = previewAbortRef.current?.signal;
+    setPreviews((prev) => ({ ...prev, [key]: { status: "loading" } }));
+    try {
+      const data = await fetchPortfolios(
+        item.complex_id,
+        item.unit_type.unit_type_id,
+        {},
+        { limit: PREVIEW_PORTFOLIOS, offset: 0 },
+        { signal },
+      );
+      if (signal?.aborted) return;
+      setPreviews((prev) => ({ ...prev, [key]: { status: "ok", items: data.items } }));
+    } catch (e) {
+      if (signal?.aborted || isAbortError(e)) return;
+      const message = e instanceof Error ? e.message : "사례를 불러오지 못했습니다.";
+      setPreviews((prev) => ({ ...prev, [key]: { status: "error", message } }));
+    }
+  }
+
+  const criteria = [
+    `${Math.round(unitType.exclusive_area_m2)}±${AREA_BAND_M2}㎡`,
+    unitType.room_count != null ? `방 ${unitType.room_count}` : null,
+    unitType.bathroom_count != null ? `욕실 ${unitType.bathroom_count}` : null,
+    unitType.structure_keyword || null,
+  ].filter(Boolean);
+
+  return (
+    <section className="same-layout">
+      <div className="floor-plan-head">
+        <h3>같은 평면, 다른 단지</h3>
+        <p>{criteria.join(" · ")}</p>
+      </div>
+      {items.length > 0 ? (
+        <button type="button" className="same-layout-show-all" onClick={onShowAll}>
+          지도에 {items.length}곳 모두 표시
+        </button>
+      ) : null}
+      {loading ? <p className="state">같은 평면 단지를 찾는 중...</p> : null}
+      {error ? <p className="state error">{error}</p> : null}
+      {!loading && !error && items.length === 0 ? <p className="state">조건이 같은 평면을 찾지 못했습니다.</p> : null}
+      <ul className="same-layout-list">
+        {items.map((item) => {
+          const key = itemKey(item);
+          const preview = previews[key];
+          return (
+            <li key={key}>
+              <div className="same-layout-row">
+                <button type="button" className="same-layout-toggle" onClick={() => void toggle(item)} aria-expanded={expandedKey === key}>
+                  <strong>{item.complex_name}</strong>
+                  <span>
+                    {Math.round(item.unit_type.exclusive_area_m2)}
+                    {item.unit_type.type_code ?? ""} · 사례 {item.unit_type.portfolio_count}건
+                    {item.distance_m != null ? ` · ${distanceLabel(item.distance_m)}` : ""}
+                  </span>
+                </button>
+                <button type="button" className="same-layout-open" onClick={() => onOpen(item)}>
+                  지도에서 보기
+                </button>
+              </div>
+              {expandedKey === key ? (
+                <div className="same-layout-preview">
+                  {preview?.status === "loading" ? <p className="state">사례를 불러오는 중...</p> : null}
+                  {preview?.status === "error" ? <p className="state error">{preview.message}</p> : null}
+                  {preview?.status === "ok" && preview.items.length === 0 ? <p className="state">공개된 사례가 없습니다.</p> : null}
+                  {preview?.status === "ok"
+                    ? preview.items.map((card) => (
+                        <Link key={card.portfolio_id} className="same-layout-card" to={`/portfolios/${card.portfolio_id}`}>
+                          <strong>{card.title}</strong>
+                          <span>{priceLabel(card.budget_min_krw, card.budget_max_krw)}</span>
+                        </Link>
+                      ))
+                    : null}
+                </div>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
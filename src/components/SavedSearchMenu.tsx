@@ -0,0 +1,66 @@
+import { useState } from "react";
+
+import { navigate } from "../router";
+import { savedSearchUrl, useSavedSearches } from "../savedSearches";
+import type { SavedSearch } from "../types";
+
+export default function SavedSearchMenu() {
+  const { savedSearches, newPortfolioCount, error, refresh, remove, markViewed } = useSavedSearches();
+  const [open, setOpen] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  function toggle() {
+    if (!open) void refresh();
+    setActionError(null);
+    setOpen((prev) => !prev);
+  }
+
+  function apply(search: SavedSearch) {
+    setOpen(false);
+    navigate(savedSearchUrl(search));
+    if (search.new_portfolio_count > 0) {
+      markViewed(search.saved_search_id).catch(() => {
+        // the badge simply stays until the next successful visit
+      });
+    }
+  }
+
+  async function onRemove(search: SavedSearch) {
+    try {
+      await remove(search.saved_search_id);
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : "저장한 검색을 삭제하지 못했습니다.");
+    }
+  }
+
+  return (
+    <div className="saved-search-menu">
+      <button className="logout-btn" onClick={toggle} aria-expanded={open}>
+        저장한 검색
+        {newPortfolioCount > 0 ? <span className="new-badge">{newPortfolioCount > 99 ? "99+" : newPortfolioCount}</span> : null}
+      </button>
+      {open ? (
+        <div className="saved-search-list">
+          {error || actionError ? <p className="saved-search-state">{actionError ?? error}</p> : null}
+          {savedSearches.length === 0 ? (
+            <p className="saved-search-state">저장한 검색이 없습니다. 지도에서 "검색 저장"을 눌러 추가하세요.</p>
+          ) : null}
+          <ul>
+            {savedSearches.map((search) => (
+              <li key={search.saved_search_id}>
+                <button className="saved-search-apply" onClick={() => apply(search)}>
+                  <strong>{search.name}</strong>
+                  <span>{search.complex_name ?? (search.area ? "그린 영역" : "지도 범위")}</span>
+                </button>
+                {search.new_portfolio_count > 0 ? <span className="new-badge">새 사례 {search.new_portfolio_count}</span> : null}
+                <button className="saved-search-remove" onClick={() => void onRemove(search)} aria-label={`${search.name} 삭제`}>
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
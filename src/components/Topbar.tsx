@@ -0,0 +1,27 @@
+import type { ReactNode } from "react";
+
+import { useAuth } from "../auth";
+import { Link } from "../router";
+import SavedSearchMenu from "./SavedSearchMenu";
+
+export default function Topbar({ children }: { children?: ReactNode }) {
+  const { currentUser, setGuestMode, signOut } = useAuth();
+
+  return (
+    <section className="topbar-stack">
+      <Link className="logo-panel" to="/">
+        <img className="top-logo" src="/Logo-wide.png" alt="PlaniFit logo" />
+      </Link>
+      {children}
+      <div className="auth-panel">
+        {currentUser ? <SavedSearchMenu /> : null}
+        <Link className="logout-btn" to="/favorites">즐겨찾기</Link>
+        {currentUser ? (
+          <button className="logout-btn" onClick={() => void signOut()}>로그아웃</button>
+        ) : (
+          <button className="logout-btn" onClick={() => setGuestMode(false)}>로그인 / 회원가입</button>
+        )}
+      </div>
+    </section>
+  );
+}
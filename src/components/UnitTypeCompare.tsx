@@ -0,0 +1,103 @@
+import { useEffect, type ReactNode } from "react";
+
+import { priceLabel } from "../format";
+import { FLOOR_PLAN_FALLBACK_URL, floorPlanUrl } from "../portfolioMedia";
+import type { UnitTypeChip } from "../types";
+
+function unitLabel(unit: UnitTypeChip) {
+  return `${Math.round(unit.exclusive_area_m2)}${unit.type_code ?? ""}`;
+}
+
+const ROWS: { label: string; value: (unit: UnitTypeChip) => ReactNode }[] = [
+  { label: "전용면적", value: (unit) => `${unit.exclusive_area_m2.toFixed(1)}㎡` },
+  { label: "방", value: (unit) => (unit.room_count != null ? `${unit.room_count}개` : "-") },
+  { label: "욕실", value: (unit) => (unit.bathroom_count != null ? `${unit.bathroom_count}개` : "-") },
+  { label: "구조", value: (unit) => unit.structure_keyword || "-" },
+  { label: "사례", value: (unit) => `${unit.portfolio_count}건` },
+  { label: "시공비", value: (unit) => priceLabel(unit.budget_min_krw, unit.budget_max_krw) },
+];
+
+export default function UnitTypeCompare({
+  complexName,
+  units,
+  selectedUnitTypeId,
+  onSelect,
+  onClose,
+}: {
+  complexName: string;
+  units: UnitTypeChip[];
+  selectedUnitTypeId: number | null;
+  onSelect: (unit: UnitTypeChip) => void;
+  onClose: () => void;
+}) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const sorted = [...units].sort((a, b) => a.exclusive_area_m2 - b.exclusive_area_m2);
+
+  return (
+    <div className="quote-modal-backdrop" onClick={onClose}>
+      <section className="compare-view" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="평형 비교">
+        <div className="compare-view-head">
+          <h3>{complexName} 평형 비교</h3>
+          <button onClick={onClose} aria-label="닫기">
+            ×
+          </button>
+        </div>
+        <div className="compare-table-wrap">
+          <table className="compare-table unit-compare-table">
+            <thead>
+              <tr>
+                <th />
+                {sorted.map((unit) => (
+                  <th key={unit.unit_type_id} className={unit.unit_type_id === selectedUnitTypeId ? "selected" : ""}>
+                    <button
+                      type="button"
+                      className="unit-compare-select"
+                      onClick={() => onSelect(unit)}
+                      aria-pressed={unit.unit_type_id === selectedUnitTypeId}
+                    >
+                      {floorPlanUrl(unit.floor_plan_image_url) ? (
+                        <img
+                          src={floorPlanUrl(unit.floor_plan_image_url) ?? undefined}
+                          alt={`${unitLabel(unit)} 평면도`}
+                          loading="lazy"
+                          onError={(e) => {
+                            const img = e.currentTarget;
+                            if (!FLOOR_PLAN_FALLBACK_URL || img.src === FLOOR_PLAN_FALLBACK_URL) return;
+                            img.src = FLOOR_PLAN_FALLBACK_URL;
+                          }}
+                        />
+                      ) : (
+                        <span className="unit-compare-missing">평면도 없음</span>
+                      )}
+                      <strong>{unitLabel(unit)}</strong>
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map((row) => (
+                <tr key={row.label}>
+                  <th scope="row">{row.label}</th>
+                  {sorted.map((unit) => (
+                    <td key={unit.unit_type_id} className={unit.unit_type_id === selectedUnitTypeId ? "selected" : ""}>
+                      {row.value(unit)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="compare-view-note">평형을 누르면 해당 평형의 평면도와 사례로 이동합니다.</p>
+      </section>
+    </div>
+  );
+}
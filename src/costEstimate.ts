@@ -0,0 +1,61 @@
+import type { CostSample } from "./types";
+
+export interface CostStats {
+  count: number;
+  min: number;
+  median: number;
+  max: number;
+  perM2Low: number;
+  perM2Median: number;
+  perM2High: number;
+}
+
+// Portfolios publish a budget range; the midpoint stands in for what the job cost.
+function budgetMidpoint(sample: CostSample): number | null {
+  const lo = sample.budget_min_krw ?? sample.budget_max_krw;
+  const hi = sample.budget_max_krw ?? sample.budget_min_krw;
+  if (lo == null || hi == null) return null;
+  return (lo + hi) / 2;
+}
+
+function quantile(sorted: number[], q: number) {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+export function costStats(samples: CostSample[]): CostStats | null {
+  const budgets: number[] = [];
+  const perM2: number[] = [];
+  samples.forEach((sample) => {
+    const budget = budgetMidpoint(sample);
+    if (budget == null) return;
+    budgets.push(budget);
+    if (sample.exclusive_area_m2 > 0) perM2.push(budget / sample.exclusive_area_m2);
+  });
+  if (budgets.length === 0 || perM2.length === 0) return null;
+  budgets.sort((a, b) => a - b);
+  perM2.sort((a, b) => a - b);
+  return {
+    count: budgets.length,
+    min: budgets[0],
+    median: quantile(budgets, 0.5),
+    max: budgets[budgets.length - 1],
+    perM2Low: quantile(perM2, 0.25),
+    perM2Median: quantile(perM2, 0.5),
+    perM2High: quantile(perM2, 0.75),
+  };
+}
+
+function roundToHundredThousand(krw: number) {
+  return Math.round(krw / 100000) * 100000;
+}
+
+// Interquartile per-m² cost scaled to the given area.
+export function estimateRange(stats: CostStats, areaM2: number): { min: number; max: number } {
+  return {
+    min: roundToHundredThousand(stats.perM2Low * areaM2),
+    max: roundToHundredThousand(stats.perM2High * areaM2),
+  };
+}
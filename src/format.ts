@@ -0,0 +1,61 @@
+import type { PortfolioCard, RoomCategory, WorkScopeType } from "./types";
+
+export function priceLabel(min?: number | null, max?: number | null) {
+  if (min == null && max == null) return "시공비 미공개";
+  const lo = min == null ? "-" : manwonLabel(min);
+  const hi = max == null ? "-" : manwonLabel(max);
+  return lo === hi ? lo : `${lo} ~ ${hi}`;
+}
+
+export function workScopeLabel(scope: WorkScopeType) {
+  if (scope === "full_remodeling") return "전체 리모델링";
+  if (scope === "partial") return "부분 공사";
+  if (scope === "kitchen") return "주방";
+  return "욕실";
+}
+
+export const ROOM_CATEGORIES: RoomCategory[] = [
+  "living_room",
+  "kitchen",
+  "bathroom",
+  "bedroom",
+  "balcony",
+  "entrance",
+  "dressing_room",
+  "other",
+];
+
+export function roomLabel(room: RoomCategory) {
+  if (room === "living_room") return "거실";
+  if (room === "kitchen") return "주방";
+  if (room === "bathroom") return "욕실";
+  if (room === "bedroom") return "침실";
+  if (room === "balcony") return "발코니";
+  if (room === "entrance") return "현관";
+  if (room === "dressing_room") return "드레스룸";
+  return "기타";
+}
+
+export function cardSummary(card: PortfolioCard) {
+  const duration = card.duration_days ? `${card.duration_days}일` : "기간 미정";
+  const vendor = card.vendor_name ?? "업체 미지정";
+  return `시공비 ${priceLabel(card.budget_min_krw, card.budget_max_krw)} · ${workScopeLabel(card.work_scope)} · ${duration} · ${vendor}`;
+}
+
+export function formatDateTimeLabel(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")} ${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+export function styleList(style?: string): string[] {
+  return (style ?? "").split(",").map((x) => x.trim()).filter(Boolean);
+}
+
+export function manwonLabel(krw: number) {
+  return `${Math.round(krw / 10000).toLocaleString()}만원`;
+}
+
+export function distanceLabel(meters: number) {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)}km` : `${Math.round(meters)}m`;
+}
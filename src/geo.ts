@@ -0,0 +1,15 @@
+export type LatLngPoint = [number, number];
+
+// Ray casting over [lat, lng] vertices; the polygon is treated as implicitly closed.
+export function pointInPolygon(point: LatLngPoint, polygon: LatLngPoint[]): boolean {
+  if (polygon.length < 3) return false;
+  const [y, x] = point;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const [yi, xi] = polygon[i];
+    const [yj, xj] = polygon[j];
+    const crosses = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
@@ -0,0 +1,89 @@
+import * as L from "leaflet";
+
+import type { ClusterPin, ComplexPin } from "./types";
+
+export type HeatmapMetric = "portfolio_count" | "median_budget";
+
+export const HEATMAP_COLORS = ["#fde68a", "#fbbf24", "#f97316", "#ea580c", "#b91c1c"];
+
+export interface HeatmapScale {
+  metric: HeatmapMetric;
+  // Upper bound of each colour bucket, ascending; the last one equals the maximum value.
+  breaks: number[];
+}
+
+interface HeatPoint {
+  latitude: number;
+  longitude: number;
+  value: number;
+  weight: number;
+}
+
+function heatPoints(metric: HeatmapMetric, clusters: ClusterPin[], complexes: ComplexPin[]): HeatPoint[] {
+  const points: HeatPoint[] = [];
+  clusters.forEach((cluster) => {
+    // cluster.count counts complexes, not portfolios, so it can't stand in for a missing portfolio_count.
+    const count = cluster.portfolio_count;
+    if (count == null) return;
+    const value = metric === "portfolio_count" ? count : cluster.median_budget_krw;
+    if (value == null || value <= 0) return;
+    points.push({ latitude: cluster.center_latitude, longitude: cluster.center_longitude, value, weight: count });
+  });
+  complexes.forEach((pin) => {
+    const value = metric === "portfolio_count" ? pin.portfolio_count : pin.median_budget_krw;
+    if (value == null || value <= 0) return;
+    points.push({ latitude: pin.latitude, longitude: pin.longitude, value, weight: pin.portfolio_count });
+  });
+  return points;
+}
+
+// Quantile breaks so that a few outliers (e.g. one very busy complex) don't wash out the rest.
+function quantileBreaks(values: number[]): number[] {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  const breaks: number[] = [];
+  for (let i = 1; i <= HEATMAP_COLORS.length; i += 1) {
+    const idx = Math.min(sorted.length - 1, Math.ceil((i / HEATMAP_COLORS.length) * sorted.length) - 1);
+    const value = sorted[idx];
+    if (breaks[breaks.length - 1] !== value) breaks.push(value);
+  }
+  return breaks;
+}
+
+function bucketColor(value: number, breaks: number[]) {
+  const idx = breaks.findIndex((limit) => value <= limit);
+  const offset = HEATMAP_COLORS.length - breaks.length;
+  return HEATMAP_COLORS[offset + (idx < 0 ? breaks.length - 1 : idx)];
+}
+
+export function createHeatmapLayer(layer: L.LayerGroup) {
+  const renderer = L.canvas({ padding: 0.3 });
+
+  function clear() {
+    layer.clearLayers();
+  }
+
+  function render(metric: HeatmapMetric, clusters: ClusterPin[], complexes: ComplexPin[]): HeatmapScale {
+    clear();
+    const points = heatPoints(metric, clusters, complexes);
+    const breaks = quantileBreaks(points.map((x) => x.value));
+    const maxWeight = Math.max(1, ...points.map((x) => x.weight));
+
+    points.forEach((point) => {
+      L.circleMarker([point.latitude, point.longitude], {
+        renderer,
+        interactive: false,
+        stroke: false,
+        radius: 14 + 22 * Math.sqrt(point.weight / maxWeight),
+        fillColor: bucketColor(point.value, breaks),
+        fillOpacity: 0.42,
+      }).addTo(layer);
+    });
+
+    return { metric, breaks };
+  }
+
+  return { render, clear };
+}
+
+export type HeatmapLayer = ReturnType<typeof createHeatmapLayer>;
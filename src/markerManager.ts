@@ -0,0 +1,148 @@
+import * as L from "leaflet";
+
+// Above this many markers DOM icons get sluggish, so markers are drawn as circles on one canvas.
+const CANVAS_MARKER_THRESHOLD = 600;
+
+export interface MarkerSpec {
+  key: string;
+  latitude: number;
+  longitude: number;
+  className: string;
+  text: string;
+  onClick: () => void;
+  onHover?: (hovering: boolean) => void;
+}
+
+interface ManagedMarker {
+  layer: L.Marker | L.CircleMarker;
+  className: string;
+  text: string;
+  latitude: number;
+  longitude: number;
+  onClick: () => void;
+  onHover?: (hovering: boolean) => void;
+}
+
+export function markerIcon(className: string, text: string): L.DivIcon {
+  return L.divIcon({
+    className: "",
+    html: `<div class="${className}">${text}</div>`,
+    iconSize: [36, 36],
+    iconAnchor: [18, 18],
+  });
+}
+
+function circleStyle(className: string, highlighted = false): L.CircleMarkerOptions {
+  const active = className.split(" ").includes("active");
+  const cluster = className.startsWith("cluster");
+  return {
+    radius: cluster ? 10 : active || highlighted ? 8 : 6,
+    color: highlighted ? "#f59e0b" : "#ffffff",
+    weight: active || highlighted ? 3 : 1,
+    fillColor: cluster ? "#2563eb" : active ? "#1d4ed8" : "#0f766e",
+    fillOpacity: 0.9,
+  };
+}
+
+export function createMarkerManager(layer: L.LayerGroup) {
+  const markers = new Map<string, ManagedMarker>();
+  const renderer = L.canvas({ padding: 0.3 });
+  let canvasMode = false;
+  let highlightedKey: string | null = null;
+
+  function applyHighlight(managed: ManagedMarker, highlighted: boolean) {
+    if (managed.layer instanceof L.CircleMarker) {
+      managed.layer.setStyle(circleStyle(managed.className, highlighted));
+      if (highlighted) managed.layer.bringToFront();
+      return;
+    }
+    managed.layer.getElement()?.classList.toggle("hovered", highlighted);
+    managed.layer.setZIndexOffset(highlighted ? 1000 : 0);
+  }
+
+  function create(spec: MarkerSpec): ManagedMarker {
+    const latLng: L.LatLngExpression = [spec.latitude, spec.longitude];
+    const marker = canvasMode
+      ? L.circleMarker(latLng, { ...circleStyle(spec.className), renderer })
+      : L.marker(latLng, { icon: markerIcon(spec.className, spec.text) });
+    const managed: ManagedMarker = {
+      layer: marker,
+      className: spec.className,
+      text: spec.text,
+      latitude: spec.latitude,
+      longitude: spec.longitude,
+      onClick: spec.onClick,
+      onHover: spec.onHover,
+    };
+    marker.on("click", () => managed.onClick());
+    marker.on("mouseover", () => managed.onHover?.(true));
+    marker.on("mouseout", () => managed.onHover?.(false));
+    if (canvasMode) marker.bindTooltip(spec.text, { direction: "top" });
+    marker.addTo(layer);
+    if (spec.key === highlightedKey) applyHighlight(managed, true);
+    return managed;
+  }
+
+  function update(key: string, managed: ManagedMarker, spec: MarkerSpec) {
+    managed.onClick = spec.onClick;
+    managed.onHover = spec.onHover;
+    if (managed.latitude !== spec.latitude || managed.longitude !== spec.longitude) {
+      managed.layer.setLatLng([spec.latitude, spec.longitude]);
+      managed.latitude = spec.latitude;
+      managed.longitude = spec.longitude;
+    }
+    if (managed.className === spec.className && managed.text === spec.text) return;
+    managed.className = spec.className;
+    managed.text = spec.text;
+    if (managed.layer instanceof L.CircleMarker) {
+      managed.layer.setTooltipContent(spec.text);
+    } else {
+      managed.layer.setIcon(markerIcon(spec.className, spec.text));
+    }
+    applyHighlight(managed, key === highlightedKey);
+  }
+
+  function clear() {
+    layer.clearLayers();
+    markers.clear();
+  }
+
+  function sync(specs: MarkerSpec[]) {
+    const nextCanvasMode = specs.length > CANVAS_MARKER_THRESHOLD;
+    if (nextCanvasMode !== canvasMode) {
+      clear();
+      canvasMode = nextCanvasMode;
+    }
+
+    const seen = new Set<string>();
+    specs.forEach((spec) => {
+      seen.add(spec.key);
+      const existing = markers.get(spec.key);
+      if (existing) {
+        update(spec.key, existing, spec);
+      } else {
+        markers.set(spec.key, create(spec));
+      }
+    });
+
+    markers.forEach((managed, key) => {
+      if (seen.has(key)) return;
+      layer.removeLayer(managed.layer);
+      markers.delete(key);
+    });
+  }
+
+  // Highlights one marker (e.g. while its list row is hovered) without re-syncing the rest.
+  function highlight(key: string | null) {
+    if (key === highlightedKey) return;
+    const previous = highlightedKey ? markers.get(highlightedKey) : undefined;
+    highlightedKey = key;
+    if (previous) applyHighlight(previous, false);
+    const next = key ? markers.get(key) : undefined;
+    if (next) applyHighlight(next, true);
+  }
+
+  return { sync, highlight };
+}
+
+export type MarkerManager = ReturnType<typeof createMarkerManager>;
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+
+import { fetchFavorites } from "../api";
+import { useAuth } from "../auth";
+import Topbar from "../components/Topbar";
+import { cardSummary } from "../format";
+import { dataGaps, imageList } from "../portfolioMedia";
+import { Link } from "../router";
+import type { PortfolioCard } from "../types";
+import LoginPage from "./LoginPage";
+
+export default function FavoritesPage() {
+  const { currentUser } = useAuth();
+  const [items, setItems] = useState<PortfolioCard[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    let cancelled = false;
+    const run = async () => {
+      setLoading(true);
+      try {
+        const data = await fetchFavorites(currentUser.user_key);
+        if (cancelled) return;
+        setItems(data.items);
+      } catch (e) {
+        if (cancelled) return;
+        setError(e instanceof Error ? e.message : "즐겨찾기를 불러오지 못했습니다.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser]);
+
+  if (!currentUser) {
+    return <LoginPage message="즐겨찾기는 로그인 후 확인할 수 있습니다." />;
+  }
+
+  return (
+    <div className="page">
+      <Topbar />
+      <section className="detail-page">
+        <div className="sheet-head">
+          <h2>즐겨찾기</h2>
+          <p>{currentUser.display_name}님이 저장한 시공 사례입니다.</p>
+        </div>
+        <div className="cards">
+          {loading ? <p className="state">즐겨찾기 로딩 중...</p> : null}
+          {error ? <p className="state error">{error}</p> : null}
+          {items.map((card) => (
+            <article key={card.portfolio_id} className="portfolio-card">
+              <div className="thumbs">
+                <div className="thumb">
+                  {imageList(card, "before")[0] ? (
+                    <img src={imageList(card, "before")[0]} alt={`${card.title} before`} loading="lazy" />
+                  ) : (
+                    <span className="thumb-missing">사진 없음</span>
+                  )}
+                  <strong>Before</strong>
+                </div>
+                <div className="thumb">
+                  {imageList(card, "after")[0] ? (
+                    <img src={imageList(card, "after")[0]} alt={`${card.title} after`} loading="lazy" />
+                  ) : (
+                    <span className="thumb-missing">사진 없음</span>
+                  )}
+                  <strong>After</strong>
+                </div>
+              </div>
+              <h3>
+                <Link to={`/portfolios/${card.portfolio_id}`}>{card.title}</Link>
+              </h3>
+              <p className="card-summary">{cardSummary(card)}</p>
+              {dataGaps(card).length > 0 ? (
+                <div className="meta compact">
+                  <span className="data-gap-badge" title={dataGaps(card).join(", ")}>
+                    정보 일부 없음
+                  </span>
+                </div>
+              ) : null}
+            </article>
+          ))}
+          {!loading && !error && items.length === 0 ? <p className="state">저장한 사례가 없습니다.</p> : null}
+        </div>
+      </section>
+    </div>
+  );
+}
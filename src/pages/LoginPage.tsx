@@ -0,0 +1,71 @@
+import { useState } from "react";
+
+import { login, signup } from "../api";
+import { useAuth } from "../auth";
+
+export default function LoginPage({ message, onGuest }: { message?: string; onGuest?: () => void }) {
+  const { signIn } = useAuth();
+  const [authMode, setAuthMode] = useState<"login" | "signup">("login");
+  const [authEmail, setAuthEmail] = useState("");
+  const [authPassword, setAuthPassword] = useState("");
+  const [authDisplayName, setAuthDisplayName] = useState("");
+  const [authLoading, setAuthLoading] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+
+  async function submitAuth() {
+    setAuthLoading(true);
+    setAuthError(null);
+    try {
+      const result = authMode === "login"
+        ? await login({ email: authEmail.trim(), password: authPassword })
+        : await signup({ email: authEmail.trim(), password: authPassword, displayName: authDisplayName.trim() });
+      signIn(result);
+      setAuthPassword("");
+    } catch (e) {
+      setAuthError(e instanceof Error ? e.message : "인증에 실패했습니다.");
+    } finally {
+      setAuthLoading(false);
+    }
+  }
+
+  return (
+    <div className="auth-page">
+      <section className="auth-card">
+        <img
+          className="auth-hero"
+          src="/Gemini_Generated_Image_ayzllbayzllbayzl.png"
+          alt="PlaniFit 로그인 배너"
+          loading="lazy"
+        />
+        <p>{message ?? "로그인 후 저장/문의 기능을 사용할 수 있습니다."}</p>
+        <div className="auth-tabs">
+          <button className={authMode === "login" ? "active" : ""} onClick={() => setAuthMode("login")}>로그인</button>
+          <button className={authMode === "signup" ? "active" : ""} onClick={() => setAuthMode("signup")}>회원가입</button>
+        </div>
+        <label>
+          이메일
+          <input value={authEmail} onChange={(e) => setAuthEmail(e.target.value)} placeholder="you@example.com" />
+        </label>
+        {authMode === "signup" ? (
+          <label>
+            이름
+            <input value={authDisplayName} onChange={(e) => setAuthDisplayName(e.target.value)} placeholder="홍길동" />
+          </label>
+        ) : null}
+        <label>
+          비밀번호
+          <input type="password" value={authPassword} onChange={(e) => setAuthPassword(e.target.value)} placeholder="8자 이상" />
+        </label>
+        {authError ? <p className="auth-error">{authError}</p> : null}
+        <button className="auth-submit" onClick={() => void submitAuth()} disabled={authLoading}>
+          {authLoading ? "처리 중..." : authMode === "login" ? "로그인" : "회원가입"}
+        </button>
+        {onGuest ? (
+          <button className="auth-guest" onClick={onGuest} disabled={authLoading}>
+            둘러보기
+          </button>
+        ) : null}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,2110 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import * as L from "leaflet";
+import "leaflet/dist/leaflet.css";
+
+import {
+  fetchClusterComplexes,
+  fetchComplexDetail,
+  fetchNearbyComplexes,
+  fetchPortfolioDetail,
+  fetchPortfolios,
+  requestQuote,
+  saveFavorite,
+  type BoundsQuery,
+} from "../api";
+import { useAuth } from "../auth";
+import BeforeAfterCompare from "../components/BeforeAfterCompare";
+import ClusterPopover from "../components/ClusterPopover";
+import ComplexListPanel from "../components/ComplexListPanel";
+import ComplexSearchBox from "../components/ComplexSearchBox";
+import CostEstimator from "../components/CostEstimator";
+import FilterDrawer from "../components/FilterDrawer";
+import FloorPlanViewer from "../components/FloorPlanViewer";
+import HeatmapLegend from "../components/HeatmapLegend";
+import Lightbox, { type LightboxImage } from "../components/Lightbox";
+import PortfolioCompare, { MAX_COMPARE } from "../components/PortfolioCompare";
+import RoomGallery from "../components/RoomGallery";
+import SameLayoutPanel from "../components/SameLayoutPanel";
+import Topbar from "../components/Topbar";
+import UnitTypeCompare from "../components/UnitTypeCompare";
+import {
+  cardSummary,
+  formatDateTimeLabel,
+  manwonLabel,
+  ROOM_CATEGORIES,
+  roomLabel,
+  styleList,
+  workScopeLabel,
+} from "../format";
+import { pointInPolygon, type LatLngPoint } from "../geo";
+import { createHeatmapLayer, type HeatmapLayer, type HeatmapMetric, type HeatmapScale } from "../heatmapLayer";
+import { createMarkerManager, markerIcon, type MarkerManager, type MarkerSpec } from "../markerManager";
+import { isAbortError, loadMapPins, peekMapPins } from "../pinCache";
+import {
+  dataGaps,
+  defaultImageSide,
+  fallbackImageUrl,
+  FLOOR_PLAN_FALLBACK_URL,
+  floorPlanUrl,
+  imageList,
+  portfolioColor,
+  portfolioColors,
+  portfolioPins,
+  type CardImageSide,
+  type PortfolioPin,
+} from "../portfolioMedia";
+import { Link, navigate, subscribeLocation } from "../router";
+import { useSavedSearches } from "../savedSearches";
+import type {
+  ClusterPin,
+  ComplexDetailResponse,
+  ComplexPin,
+  MapPinsResponse,
+  PortfolioCard,
+  PortfolioFilters,
+  PortfolioSort,
+  RoomCategory,
+  SimilarUnitType,
+  UnitTypeChip,
+  WorkScopeType,
+} from "../types";
+import {
+  buildSearchUrl,
+  isMapPath,
+  MAX_AREA_VERTICES,
+  readSearchState,
+  sameSelection,
+  type SearchState,
+} from "../urlState";
+import LoginPage from "./LoginPage";
+
+const DEFAULT_BOUNDS: BoundsQuery = {
+  south: 37.4,
+  west: 127.0,
+  north: 37.6,
+  east: 127.2,
+  zoom: 13,
+};
+
+const DEFAULT_CENTER: L.LatLngExpression = [37.4875, 127.1022];
+const DEFAULT_FILTERS: PortfolioFilters = {};
+const PORTFOLIO_PAGE_SIZE = 30;
+const SORT_OPTIONS: { value: PortfolioSort; label: string }[] = [
+  { value: "recommended", label: "추천순" },
+  { value: "budget_asc", label: "시공비 낮은 순" },
+  { value: "budget_desc", label: "시공비 높은 순" },
+  { value: "duration_asc", label: "공사기간 짧은 순" },
+  { value: "newest", label: "최신순" },
+  { value: "media_desc", label: "핀·사진 많은 순" },
+  { value: "favorite_vendors", label: "즐겨찾기 업체 먼저" },
+];
+const STYLE_PRESETS = ["모던", "미니멀", "내추럴", "북유럽", "클래식", "빈티지"];
+const MIN_NEARBY_RADIUS_M = 300;
+const MAX_NEARBY_RADIUS_M = 10000;
+const FAVORITE_VENDOR_IDS_KEY = "hometypemap.favorite_vendor_ids";
+const AUTO_FAVORITE_VENDOR_KEY = "hometypemap.auto_favorite_vendor_filter";
+
+type MapMode = "bounds" | "nearby" | "area";
+type NearbyCenter = { latitude: number; longitude: number; source: "gps" | "custom" };
+type FloorPin = PortfolioPin;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Clusters that carry their member complexes are cut to the members inside the area; the rest can only be
+// judged by their centre point.
+function clipClusterToArea(cluster: ClusterPin, area: LatLngPoint[]): ClusterPin[] {
+  if (!cluster.complexes) {
+    return pointInPolygon([cluster.center_latitude, cluster.center_longitude], area) ? [cluster] : [];
+  }
+  const inside = cluster.complexes.filter((x) => pointInPolygon([x.latitude, x.longitude], area));
+  if (inside.length === 0) return [];
+  if (inside.length === cluster.complexes.length) return [cluster];
+  return [
+    {
+      ...cluster,
+      count: inside.length,
+      portfolio_count: inside.reduce((sum, x) => sum + x.portfolio_count, 0),
+      // The server's median covers the whole cluster and can't be recomputed from the members.
+      median_budget_krw: null,
+      complexes: inside,
+    },
+  ];
+}
+
+function radiusHandlePoint(center: L.LatLng, radiusM: number): L.LatLngExpression {
+  const metersPerDegreeLng = 111320 * Math.cos((center.lat * Math.PI) / 180);
+  return [center.lat, center.lng + radiusM / metersPerDegreeLng];
+}
+
+function attachTileLayerWithFallback(map: L.Map) {
+  const providers = [
+    {
+      url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+      subdomains: "abc",
+    },
+    {
+      url: "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png",
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OSM</a> &copy; <a href="https://carto.com/attributions">CARTO</a>',
+      subdomains: "abcd",
+    },
+  ] as const;
+
+  let index = 0;
+  let layer: L.TileLayer | null = null;
+  const bind = () => {
+    const p = providers[index];
+    layer = L.tileLayer(p.url, {
+      attribution: p.attribution,
+      subdomains: p.subdomains,
+      maxZoom: 19,
+      crossOrigin: true,
+    });
+    layer.on("tileerror", () => {
+      if (index >= providers.length - 1) return;
+      index += 1;
+      if (layer) map.removeLayer(layer);
+      bind();
+      layer?.addTo(map);
+    });
+    layer.addTo(map);
+  };
+  bind();
+}
+
+export default function MapPage() {
+  const mapContainerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerManagerRef = useRef<MarkerManager | null>(null);
+  const heatmapLayerRef = useRef<HeatmapLayer | null>(null);
+  const userLayerRef = useRef<L.LayerGroup | null>(null);
+  const clusterPopupRef = useRef<L.Popup | null>(null);
+  const areaLayerRef = useRef<L.LayerGroup | null>(null);
+  const sameLayoutLayerRef = useRef<L.LayerGroup | null>(null);
+  const areaDraftRef = useRef<LatLngPoint[]>([]);
+  const cardsRef = useRef<HTMLDivElement | null>(null);
+  const cardsEndRef = useRef<HTMLDivElement | null>(null);
+  const scrollCardsToTopRef = useRef(false);
+  const morePortfoliosRef = useRef<AbortController | null>(null);
+  const [initialSearch] = useState(() => readSearchState(window.location.pathname, window.location.search));
+  const lastSearchRef = useRef<SearchState>(initialSearch);
+  const pendingRestoreRef = useRef<SearchState | null>(initialSearch.complexId != null ? initialSearch : null);
+  const replaceNextSearchRef = useRef(false);
+
+  const [bounds, setBounds] = useState<BoundsQuery>(DEFAULT_BOUNDS);
+  const [clusters, setClusters] = useState<ClusterPin[]>([]);
+  const [hoveredComplexId, setHoveredComplexId] = useState<number | null>(null);
+  const [heatmapMetric, setHeatmapMetric] = useState<HeatmapMetric | null>(null);
+  const [heatmapScale, setHeatmapScale] = useState<HeatmapScale | null>(null);
+  const [openCluster, setOpenCluster] = useState<ClusterPin | null>(null);
+  const [clusterMembers, setClusterMembers] = useState<ComplexPin[] | null>(null);
+  const [clusterMembersError, setClusterMembersError] = useState<string | null>(null);
+  const [clusterPopoverEl] = useState(() => document.createElement("div"));
+  const [complexes, setComplexes] = useState<ComplexPin[]>([]);
+
+  const [selectedComplex, setSelectedComplex] = useState<ComplexDetailResponse | null>(null);
+  const [selectedUnitType, setSelectedUnitType] = useState<UnitTypeChip | null>(null);
+  const [portfolios, setPortfolios] = useState<PortfolioCard[]>([]);
+
+  const [filters, setFilters] = useState<PortfolioFilters>(() => ({ ...DEFAULT_FILTERS, ...initialSearch.filters }));
+  const [filterDrawerOpen, setFilterDrawerOpen] = useState(false);
+  const [saveSearchName, setSaveSearchName] = useState<string | null>(null);
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [portfolioSort, setPortfolioSort] = useState<PortfolioSort>(initialSearch.sort);
+  const [restoring, setRestoring] = useState(initialSearch.complexId != null);
+
+  const { authToken, currentUser, guestMode, setGuestMode } = useAuth();
+  const { save: saveSearch } = useSavedSearches();
+
+  const [loadingMap, setLoadingMap] = useState(false);
+  const [loadingPortfolios, setLoadingPortfolios] = useState(false);
+  const [loadingMorePortfolios, setLoadingMorePortfolios] = useState(false);
+  const [portfoliosTotal, setPortfoliosTotal] = useState(0);
+  // Rows consumed from the server; differs from portfolios.length when a restored pin was fetched on its own.
+  const [portfoliosOffset, setPortfoliosOffset] = useState(0);
+  const [portfoliosExhausted, setPortfoliosExhausted] = useState(false);
+  const [status, setStatus] = useState<string>("지도를 초기화하는 중입니다.");
+
+  const [mapMode, setMapMode] = useState<MapMode>(initialSearch.area ? "area" : "bounds");
+  const [searchArea, setSearchArea] = useState<LatLngPoint[] | null>(initialSearch.area);
+  const [drawingArea, setDrawingArea] = useState(false);
+  const [areaDraft, setAreaDraft] = useState<LatLngPoint[]>([]);
+  const [highlightList, setHighlightList] = useState(false);
+  const [nearbyRadiusM, setNearbyRadiusM] = useState(3000);
+  const [nearbyRadiusDraft, setNearbyRadiusDraft] = useState(3000);
+  const [nearbyCenter, setNearbyCenter] = useState<NearbyCenter | null>(null);
+  const [pickingNearbyCenter, setPickingNearbyCenter] = useState(false);
+  const [selectedCardImages, setSelectedCardImages] = useState<Record<number, CardImageSide>>({});
+  const [selectedPinnedPortfolioId, setSelectedPinnedPortfolioId] = useState<number | null>(null);
+  const [selectedFloorPinId, setSelectedFloorPinId] = useState<string | null>(null);
+  const [gallerySide, setGallerySide] = useState<CardImageSide>("after");
+  const [galleryCompare, setGalleryCompare] = useState(false);
+  const [roomFilter, setRoomFilter] = useState<RoomCategory | null>(null);
+  const [lightbox, setLightbox] = useState<{ images: LightboxImage[]; index: number } | null>(null);
+  const [vendorSearch, setVendorSearch] = useState("");
+  const [favoriteVendorIds, setFavoriteVendorIds] = useState<number[]>([]);
+  const [autoFavoriteVendorFilter, setAutoFavoriteVendorFilter] = useState(true);
+  const [savedPortfolioIds, setSavedPortfolioIds] = useState<number[]>([]);
+  const [quotedPortfolioIds, setQuotedPortfolioIds] = useState<number[]>([]);
+  const [actionNotice, setActionNotice] = useState<{ tone: "ok" | "error"; message: string } | null>(null);
+  const [quoteModalCard, setQuoteModalCard] = useState<PortfolioCard | null>(null);
+  const [quoteMessage, setQuoteMessage] = useState("");
+  const [quoteSubmitting, setQuoteSubmitting] = useState(false);
+  const [compareCards, setCompareCards] = useState<PortfolioCard[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [unitCompareOpen, setUnitCompareOpen] = useState(false);
+  const [sameLayoutItems, setSameLayoutItems] = useState<SimilarUnitType[]>([]);
+
+  const syncBoundsFromMap = () => {
+    const map = mapRef.current;
+    if (!map) return;
+    const b = map.getBounds();
+    setBounds({
+      south: b.getSouth(),
+      west: b.getWest(),
+      north: b.getNorth(),
+      east: b.getEast(),
+      zoom: map.getZoom(),
+    });
+  };
+
+  useEffect(() => {
+    if (!mapContainerRef.current || mapRef.current) return;
+
+    const { view } = readSearchState(window.location.pathname, window.location.search);
+    const map = L.map(mapContainerRef.current, {
+      center: view ? [view.latitude, view.longitude] : DEFAULT_CENTER,
+      zoom: view ? clamp(view.zoom, 7, 18) : DEFAULT_BOUNDS.zoom,
+      minZoom: 7,
+      maxZoom: 18,
+      zoomControl: false,
+    });
+
+    mapRef.current = map;
+    heatmapLayerRef.current = createHeatmapLayer(L.layerGroup().addTo(map));
+    markerManagerRef.current = createMarkerManager(L.layerGroup().addTo(map));
+    userLayerRef.current = L.layerGroup().addTo(map);
+    areaLayerRef.current = L.layerGroup().addTo(map);
+    sameLayoutLayerRef.current = L.layerGroup().addTo(map);
+
+    attachTileLayerWithFallback(map);
+
+    map.on("moveend", syncBoundsFromMap);
+    map.on("zoomend", syncBoundsFromMap);
+    syncBoundsFromMap();
+
+    setStatus("지도 준비 완료. 핀을 선택하세요.");
+    window.setTimeout(() => {
+      map.invalidateSize();
+    }, 0);
+
+    return () => {
+      map.off("moveend", syncBoundsFromMap);
+      map.off("zoomend", syncBoundsFromMap);
+      map.remove();
+      mapRef.current = null;
+      heatmapLayerRef.current = null;
+      markerManagerRef.current = null;
+      userLayerRef.current = null;
+      areaLayerRef.current = null;
+      sameLayoutLayerRef.current = null;
+    };
+  }, [currentUser, guestMode]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const raf = window.requestAnimationFrame(() => {
+      map.invalidateSize();
+    });
+    return () => window.cancelAnimationFrame(raf);
+  }, [currentUser, guestMode]);
+
+  useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(FAVORITE_VENDOR_IDS_KEY);
+      if (!raw) return;
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) {
+        const normalized = parsed
+          .map((x) => Number(x))
+          .filter((x) => Number.isInteger(x) && x > 0);
+        setFavoriteVendorIds(normalized);
+      }
+    } catch {
+      // ignore localStorage parse errors
+    }
+  }, []);
+
+  useEffect(() => {
+    window.localStorage.setItem(FAVORITE_VENDOR_IDS_KEY, JSON.stringify(favoriteVendorIds));
+  }, [favoriteVendorIds]);
+
+  useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(AUTO_FAVORITE_VENDOR_KEY);
+      if (!raw) return;
+      setAutoFavoriteVendorFilter(raw === "1");
+    } catch {
+      // ignore localStorage read errors
+    }
+  }, []);
+
+  useEffect(() => {
+    window.localStorage.setItem(AUTO_FAVORITE_VENDOR_KEY, autoFavoriteVendorFilter ? "1" : "0");
+  }, [autoFavoriteVendorFilter]);
+
+  const effectiveVendorId = useMemo(
+    () => filters.vendor_id ?? (autoFavoriteVendorFilter ? favoriteVendorIds[0] : undefined),
+    [filters.vendor_id, autoFavoriteVendorFilter, favoriteVendorIds],
+  );
+
+  const resolvedFilters = useMemo(
+    () => ({ ...filters, vendor_id: effectiveVendorId }),
+    [filters, effectiveVendorId],
+  );
+
+  const preferredVendorKey = portfolioSort === "favorite_vendors" ? favoriteVendorIds.join(",") : "";
+  const portfolioOrder = useMemo(
+    () => ({
+      sort: portfolioSort,
+      preferred_vendor_ids: preferredVendorKey ? preferredVendorKey.split(",").map(Number) : undefined,
+    }),
+    [portfolioSort, preferredVendorKey],
+  );
+
+  useEffect(() => {
+    if (mapMode === "nearby") return;
+
+    let cancelled = false;
+    const controller = new AbortController();
+    const area = mapMode === "area" ? searchArea : null;
+    const applyPins = (data: MapPinsResponse) => {
+      const complexesWithMatches = data.complexes.filter((x) => x.portfolio_count > 0);
+      if (!area) {
+        setClusters(data.clusters);
+        setComplexes(complexesWithMatches);
+        return;
+      }
+      setClusters(data.clusters.flatMap((x) => clipClusterToArea(x, area)));
+      setComplexes(complexesWithMatches.filter((x) => pointInPolygon([x.latitude, x.longitude], area)));
+    };
+
+    const cached = peekMapPins(bounds, resolvedFilters);
+    if (cached) {
+      applyPins(cached);
+      setLoadingMap(false);
+      return;
+    }
+
+    const loadPins = async () => {
+      if (!mapRef.current) return;
+      setLoadingMap(true);
+      try {
+        const data = await loadMapPins(bounds, resolvedFilters, controller.signal);
+        if (cancelled) return;
+        applyPins(data);
+      } catch (e) {
+        if (cancelled || isAbortError(e)) return;
+        setStatus(e instanceof Error ? e.message : "지도 데이터를 불러오지 못했습니다.");
+      } finally {
+        if (!cancelled) setLoadingMap(false);
+      }
+    };
+
+    const id = setTimeout(loadPins, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+      controller.abort();
+    };
+  }, [bounds, mapMode, searchArea, resolvedFilters]);
+
+  useEffect(() => {
+    const layer = areaLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    if (drawingArea) {
+      if (areaDraft.length > 1) {
+        L.polyline(areaDraft, { color: "#0f766e", weight: 2, dashArray: "6 6" }).addTo(layer);
+      }
+      areaDraft.forEach((point) => {
+        L.circleMarker(point, { radius: 4, color: "#0f766e", weight: 2, fillColor: "#ffffff", fillOpacity: 1 }).addTo(layer);
+      });
+      return;
+    }
+
+    if (mapMode === "area" && searchArea) {
+      L.polygon(searchArea, {
+        color: "#0f766e",
+        weight: 2,
+        fillColor: "#0f766e",
+        fillOpacity: 0.08,
+        interactive: false,
+      }).addTo(layer);
+    }
+  }, [drawingArea, areaDraft, mapMode, searchArea, currentUser, guestMode]);
+
+  useEffect(() => {
+    const layer = sameLayoutLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+    sameLayoutItems.forEach((item) => {
+      L.circleMarker([item.latitude, item.longitude], {
+        radius: 9,
+        color: "#7c3aed",
+        weight: 2,
+        fillColor: "#ede9fe",
+        fillOpacity: 0.9,
+        className: "same-layout-marker",
+      })
+        .bindTooltip(`${item.complex_name} · 같은 평면`)
+        .on("click", () => openSameLayout(item))
+        .addTo(layer);
+    });
+  }, [sameLayoutItems, currentUser, guestMode]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!drawingArea || !map) return;
+
+    const onClick = (e: L.LeafletMouseEvent) => {
+      if (areaDraftRef.current.length >= MAX_AREA_VERTICES) return;
+      areaDraftRef.current = [...areaDraftRef.current, [e.latlng.lat, e.latlng.lng]];
+      setAreaDraft(areaDraftRef.current);
+    };
+    const onDoubleClick = () => {
+      finishAreaDrawing();
+    };
+
+    map.doubleClickZoom.disable();
+    map.getContainer().classList.add("drawing");
+    map.on("click", onClick);
+    map.on("dblclick", onDoubleClick);
+    return () => {
+      map.off("click", onClick);
+      map.off("dblclick", onDoubleClick);
+      map.getContainer().classList.remove("drawing");
+      map.doubleClickZoom.enable();
+    };
+  }, [drawingArea]);
+
+  useEffect(() => {
+    const layer = userLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    if (!nearbyCenter) return;
+
+    const center = L.latLng(nearbyCenter.latitude, nearbyCenter.longitude);
+    const circle = L.circle(center, {
+      radius: nearbyRadiusDraft,
+      color: "#325f8c",
+      weight: 2,
+      fillColor: "#325f8c",
+      fillOpacity: 0.12,
+    }).addTo(layer);
+
+    const centerMarker = L.marker(center, {
+      icon: markerIcon("user-dot", nearbyCenter.source === "gps" ? "내" : "기준"),
+      draggable: true,
+      title: "드래그해서 기준 위치 이동",
+    }).addTo(layer);
+
+    const handle = L.marker(radiusHandlePoint(center, nearbyRadiusDraft), {
+      icon: L.divIcon({ className: "", html: '<div class="radius-handle"></div>', iconSize: [18, 18], iconAnchor: [9, 9] }),
+      draggable: true,
+      title: "드래그해서 반경 조절",
+    }).addTo(layer);
+
+    const handleRadius = () =>
+      clamp(circle.getLatLng().distanceTo(handle.getLatLng()), MIN_NEARBY_RADIUS_M, MAX_NEARBY_RADIUS_M);
+
+    centerMarker.on("drag", () => {
+      const next = centerMarker.getLatLng();
+      circle.setLatLng(next);
+      handle.setLatLng(radiusHandlePoint(next, circle.getRadius()));
+    });
+    centerMarker.on("dragend", () => {
+      const next = centerMarker.getLatLng();
+      setNearbyCenter({ latitude: next.lat, longitude: next.lng, source: "custom" });
+    });
+    handle.on("drag", () => {
+      circle.setRadius(handleRadius());
+    });
+    handle.on("dragend", () => {
+      const radius = Math.round(handleRadius() / 50) * 50;
+      setNearbyRadiusDraft(radius);
+      setNearbyRadiusM(radius);
+    });
+  }, [nearbyCenter, nearbyRadiusDraft]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!pickingNearbyCenter || !map) return;
+
+    const onClick = (e: L.LeafletMouseEvent) => {
+      setPickingNearbyCenter(false);
+      startNearbySearch({ latitude: e.latlng.lat, longitude: e.latlng.lng, source: "custom" });
+    };
+    map.getContainer().classList.add("drawing");
+    map.on("click", onClick);
+    return () => {
+      map.off("click", onClick);
+      map.getContainer().classList.remove("drawing");
+    };
+  }, [pickingNearbyCenter]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const manager = markerManagerRef.current;
+    if (!map || !manager) return;
+
+    const specs: MarkerSpec[] = [];
+    clusters.forEach((cluster) => {
+      specs.push({
+        key: `cluster:${cluster.cluster_key}`,
+        latitude: cluster.center_latitude,
+        longitude: cluster.center_longitude,
+        className: "cluster-badge",
+        text: String(cluster.count),
+        onClick: () => setOpenCluster(cluster),
+      });
+    });
+
+    complexes.forEach((pin) => {
+      const active = selectedComplex?.complex_id === pin.complex_id;
+      specs.push({
+        key: `complex:${pin.complex_id}`,
+        latitude: pin.latitude,
+        longitude: pin.longitude,
+        className: active ? "complex-dot active" : "complex-dot",
+        text: String(pin.portfolio_count),
+        onClick: () => {
+          map.panTo([pin.latitude, pin.longitude]);
+          void handleSelectComplex(pin.complex_id, true);
+        },
+        onHover: (hovering) =>
+          setHoveredComplexId((prev) => (hovering ? pin.complex_id : prev === pin.complex_id ? null : prev)),
+      });
+    });
+
+    manager.sync(specs);
+  }, [clusters, complexes, selectedComplex, currentUser, guestMode]);
+
+  useEffect(() => {
+    const heatmap = heatmapLayerRef.current;
+    if (!heatmap) return;
+    if (!heatmapMetric) {
+      heatmap.clear();
+      setHeatmapScale(null);
+      return;
+    }
+    setHeatmapScale(heatmap.render(heatmapMetric, clusters, complexes));
+  }, [heatmapMetric, clusters, complexes, currentUser, guestMode]);
+
+  useEffect(() => {
+    markerManagerRef.current?.highlight(hoveredComplexId != null ? `complex:${hoveredComplexId}` : null);
+  }, [hoveredComplexId]);
+
+  useEffect(() => {
+    setOpenCluster((prev) => (prev && clusters.some((x) => x.cluster_key === prev.cluster_key) ? prev : null));
+  }, [clusters]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!openCluster || !map) return;
+
+    const popup = L.popup({ className: "cluster-popup", maxWidth: 300, minWidth: 220 })
+      .setLatLng([openCluster.center_latitude, openCluster.center_longitude])
+      .setContent(clusterPopoverEl)
+      .openOn(map);
+    const onRemove = () => setOpenCluster(null);
+    popup.on("remove", onRemove);
+    clusterPopupRef.current = popup;
+    return () => {
+      popup.off("remove", onRemove);
+      map.closePopup(popup);
+      clusterPopupRef.current = null;
+    };
+  }, [openCluster, clusterPopoverEl]);
+
+  useEffect(() => {
+    clusterPopupRef.current?.update();
+  }, [clusterMembers, clusterMembersError]);
+
+  useEffect(() => {
+    setClusterMembers(null);
+    setClusterMembersError(null);
+    const map = mapRef.current;
+    if (!openCluster || !map) return;
+
+    const origin = nearbyCenter ? L.latLng(nearbyCenter.latitude, nearbyCenter.longitude) : map.getCenter();
+    const area = mapMode === "area" ? searchArea : null;
+    const applyMembers = (items: ComplexPin[]) => {
+      const members = items
+        .filter((x) => x.portfolio_count > 0 && (!area || pointInPolygon([x.latitude, x.longitude], area)))
+        .map((x) => ({ ...x, distance_m: x.distance_m ?? origin.distanceTo([x.latitude, x.longitude]) }))
+        .sort((a, b) => (a.distance_m ?? 0) - (b.distance_m ?? 0));
+      setClusterMembers(members);
+    };
+
+    if (openCluster.complexes) {
+      applyMembers(openCluster.complexes);
+      return;
+    }
+
+    let cancelled = false;
+    const controller = new AbortController();
+    const run = async () => {
+      try {
+        const data = await fetchClusterComplexes(
+          openCluster.cluster_key,
+          bounds,
+          resolvedFilters,
+          { signal: controller.signal },
+        );
+        if (cancelled) return;
+        applyMembers(data.items);
+      } catch (e) {
+        if (cancelled || isAbortError(e)) return;
+        setClusterMembersError(e instanceof Error ? e.message : "단지 목록을 불러오지 못했습니다.");
+      }
+    };
+
+    void run();
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [openCluster]);
+
+  useEffect(() => {
+    setPortfoliosTotal(0);
+    setPortfoliosOffset(0);
+    setPortfoliosExhausted(false);
+    if (!selectedComplex || !selectedUnitType) return;
+
+    let cancelled = false;
+    const controller = new AbortController();
+    const run = async () => {
+      setLoadingPortfolios(true);
+      setStatus("포트폴리오를 조회 중입니다.");
+      try {
+        const data = await fetchPortfolios(
+          selectedComplex.complex_id,
+          selectedUnitType.unit_type_id,
+          resolvedFilters,
+          { ...portfolioOrder, limit: PORTFOLIO_PAGE_SIZE, offset: 0 },
+          { signal: controller.signal },
+        );
+        if (cancelled) return;
+        let items = data.items;
+        const pending = pendingRestoreRef.current;
+        const pinnedId = pending?.unitTypeId === selectedUnitType.unit_type_id ? pending.pinnedPortfolioId : null;
+        if (pinnedId != null && !items.some((x) => x.portfolio_id === pinnedId)) {
+          // A shared pin can point past the first page; load that portfolio by itself and list it first.
+          try {
+            const pinned = await fetchPortfolioDetail(pinnedId);
+            if (pinned.complex_id === selectedComplex.complex_id && pinned.unit_type_id === selectedUnitType.unit_type_id) {
+              items = [pinned, ...items];
+            }
+          } catch {
+            // Restore without the pin when the portfolio is gone or unpublished.
+          }
+          if (cancelled) return;
+        }
+        setPortfolios(items);
+        setPortfoliosTotal(data.total);
+        setPortfoliosOffset(data.items.length);
+        if (pending && pending.unitTypeId === selectedUnitType.unit_type_id) {
+          applyRestoredPin(pending, items);
+          finishRestore();
+        }
+        if (scrollCardsToTopRef.current) {
+          scrollCardsToTopRef.current = false;
+          cardsRef.current?.scrollTo({ top: 0, behavior: "smooth" });
+        }
+      } catch (e) {
+        if (cancelled || isAbortError(e)) return;
+        setStatus(e instanceof Error ? e.message : "포트폴리오를 불러오지 못했습니다.");
+        if (pendingRestoreRef.current) finishRestore();
+      } finally {
+        if (!cancelled) setLoadingPortfolios(false);
+      }
+    };
+
+    void run();
+    return () => {
+      cancelled = true;
+      controller.abort();
+      morePortfoliosRef.current?.abort();
+      morePortfoliosRef.current = null;
+      setLoadingMorePortfolios(false);
+    };
+  }, [selectedComplex, selectedUnitType, resolvedFilters, portfolioOrder]);
+
+  const hasMorePortfolios =
+    !loadingPortfolios && !portfoliosExhausted && portfoliosOffset > 0 && portfoliosOffset < portfoliosTotal;
+
+  async function loadMorePortfolios() {
+    if (!selectedComplex || !selectedUnitType || morePortfoliosRef.current) return;
+    const controller = new AbortController();
+    morePortfoliosRef.current = controller;
+    setLoadingMorePortfolios(true);
+    try {
+      const data = await fetchPortfolios(
+        selectedComplex.complex_id,
+        selectedUnitType.unit_type_id,
+        resolvedFilters,
+        { ...portfolioOrder, limit: PORTFOLIO_PAGE_SIZE, offset: portfoliosOffset },
+        { signal: controller.signal },
+      );
+      if (controller.signal.aborted) return;
+      const seen = new Set(portfolios.map((x) => x.portfolio_id));
+      const added = data.items.filter((x) => !seen.has(x.portfolio_id));
+      setPortfolios((prev) => [...prev, ...added]);
+      setPortfoliosOffset(portfoliosOffset + data.items.length);
+      setPortfoliosTotal(data.total);
+      // Rows shifting between pages can repeat ids; a page with nothing new (or a short one) ends the list.
+      if (added.length === 0 || data.items.length < PORTFOLIO_PAGE_SIZE) setPortfoliosExhausted(true);
+    } catch (e) {
+      if (controller.signal.aborted || isAbortError(e)) return;
+      setStatus(e instanceof Error ? e.message : "포트폴리오를 더 불러오지 못했습니다.");
+    } finally {
+      if (morePortfoliosRef.current === controller) {
+        morePortfoliosRef.current = null;
+        setLoadingMorePortfolios(false);
+      }
+    }
+  }
+
+  useEffect(() => {
+    const container = cardsRef.current;
+    const sentinel = cardsEndRef.current;
+    if (!hasMorePortfolios || !container || !sentinel) return;
+    // On narrow screens the card list grows with the page instead of scrolling on its own.
+    const scrolls = window.getComputedStyle(container).maxHeight !== "none";
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) void loadMorePortfolios();
+      },
+      { root: scrolls ? container : null, rootMargin: "0px 0px 240px 0px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMorePortfolios, portfolios]);
+
+  useEffect(() => {
+    if (!highlightList) return;
+    const timer = window.setTimeout(() => setHighlightList(false), 900);
+    return () => window.clearTimeout(timer);
+  }, [highlightList]);
+
+  useEffect(() => {
+    setSelectedCardImages((prev) => {
+      const next: Record<number, CardImageSide> = {};
+      portfolios.forEach((card) => {
+        const selected = prev[card.portfolio_id];
+        if (selected === "before" || selected === "after") {
+          next[card.portfolio_id] = selected;
+          return;
+        }
+        const fallback = defaultImageSide(card);
+        if (fallback) next[card.portfolio_id] = fallback;
+      });
+      return next;
+    });
+  }, [portfolios]);
+
+  useEffect(() => {
+    if (selectedPinnedPortfolioId == null) return;
+    if (portfolios.some((x) => x.portfolio_id === selectedPinnedPortfolioId)) return;
+    setSelectedPinnedPortfolioId(null);
+    setSelectedFloorPinId(null);
+  }, [portfolios, selectedPinnedPortfolioId]);
+
+  useEffect(() => {
+    setSelectedPinnedPortfolioId(null);
+    setSelectedFloorPinId(null);
+    setCompareCards([]);
+    setCompareOpen(false);
+    setRoomFilter(null);
+  }, [selectedUnitType?.unit_type_id]);
+
+  const unitTypeButtons = useMemo(() => selectedComplex?.unit_types ?? [], [selectedComplex]);
+
+  const activeFilterChips = useMemo(() => {
+    const chips: Array<{ id: string; label: string; clear: Partial<PortfolioFilters> }> = [];
+    const range = (low: string | null, high: string | null) => (high == null ? `${low} 이상` : low == null ? `${high} 이하` : `${low} ~ ${high}`);
+    if (filters.work_scope) {
+      chips.push({ id: "work_scope", label: `공사범위 ${workScopeLabel(filters.work_scope)}`, clear: { work_scope: undefined } });
+    }
+    if (filters.min_area !== undefined || filters.max_area !== undefined) {
+      chips.push({
+        id: "area",
+        label: `면적 ${range(
+          filters.min_area !== undefined ? `${filters.min_area}m²` : null,
+          filters.max_area !== undefined ? `${filters.max_area}m²` : null,
+        )}`,
+        clear: { min_area: undefined, max_area: undefined },
+      });
+    }
+    if (filters.budget_min_krw !== undefined || filters.budget_max_krw !== undefined) {
+      chips.push({
+        id: "budget",
+        label: `시공비 ${range(
+          filters.budget_min_krw !== undefined ? manwonLabel(filters.budget_min_krw) : null,
+          filters.budget_max_krw !== undefined ? manwonLabel(filters.budget_max_krw) : null,
+        )}`,
+        clear: { budget_min_krw: undefined, budget_max_krw: undefined },
+      });
+    }
+    const styles = styleList(filters.style);
+    styles.forEach((style) => {
+      const rest = styles.filter((x) => x !== style);
+      chips.push({ id: `style:${style}`, label: `스타일 ${style}`, clear: { style: rest.length > 0 ? rest.join(",") : undefined } });
+    });
+    if (filters.min_duration_days !== undefined || filters.max_duration_days !== undefined) {
+      chips.push({
+        id: "duration",
+        label: `공사기간 ${range(
+          filters.min_duration_days !== undefined ? `${filters.min_duration_days}일` : null,
+          filters.max_duration_days !== undefined ? `${filters.max_duration_days}일` : null,
+        )}`,
+        clear: { min_duration_days: undefined, max_duration_days: undefined },
+      });
+    }
+    if (effectiveVendorId !== undefined) {
+      chips.push({
+        id: "vendor_id",
+        label: `${filters.vendor_id !== undefined ? "업체" : "즐겨찾기 업체"} #${effectiveVendorId}`,
+        clear: { vendor_id: undefined },
+      });
+    }
+    return chips;
+  }, [filters, effectiveVendorId]);
+
+  const styleOptions = useMemo(() => {
+    const options = new Set(STYLE_PRESETS);
+    portfolios.forEach((card) => styleList(card.style).forEach((style) => options.add(style)));
+    styleList(filters.style).forEach((style) => options.add(style));
+    return Array.from(options);
+  }, [portfolios, filters.style]);
+
+  const compareColors = useMemo(() => {
+    const colors = portfolioColors(portfolios);
+    // A compared card can drop out of the list when filters change; give it a colour past the list's.
+    compareCards.forEach((card, idx) => {
+      if (!colors.has(card.portfolio_id)) colors.set(card.portfolio_id, portfolioColor(portfolios.length + idx));
+    });
+    return colors;
+  }, [portfolios, compareCards]);
+
+  const vendorChips = useMemo(() => {
+    const map = new Map<number, { vendorId: number; name: string; count: number; favorite: boolean }>();
+    portfolios.forEach((card) => {
+      if (!card.vendor_id) return;
+      const next = map.get(card.vendor_id) ?? {
+        vendorId: card.vendor_id,
+        name: card.vendor_name ?? `업체 #${card.vendor_id}`,
+        count: 0,
+        favorite: favoriteVendorIds.includes(card.vendor_id),
+      };
+      next.count += 1;
+      map.set(card.vendor_id, next);
+    });
+    const items = Array.from(map.values())
+      .filter((x) => x.name.toLowerCase().includes(vendorSearch.toLowerCase()))
+      .sort((a, b) => {
+        if (a.favorite !== b.favorite) return a.favorite ? -1 : 1;
+        return b.count - a.count || a.vendorId - b.vendorId;
+      });
+    if (effectiveVendorId !== undefined && !map.has(effectiveVendorId)) {
+      items.unshift({
+        vendorId: effectiveVendorId,
+        name: `업체 #${effectiveVendorId}`,
+        count: 0,
+        favorite: favoriteVendorIds.includes(effectiveVendorId),
+      });
+    }
+    return items;
+  }, [portfolios, effectiveVendorId, vendorSearch, favoriteVendorIds]);
+
+  const selectedPin = useMemo(() => {
+    if (!selectedComplex) return null;
+    return complexes.find((x) => x.complex_id === selectedComplex.complex_id) ?? null;
+  }, [complexes, selectedComplex]);
+  const selectedDistance = selectedPin?.distance_m ?? null;
+
+  // The list mirrors the map: cluster members the server sent along are listed, and distances fall back to
+  // the map centre the same way the cluster popover does.
+  const listComplexes = useMemo(() => {
+    const map = mapRef.current;
+    const origin = nearbyCenter ? L.latLng(nearbyCenter.latitude, nearbyCenter.longitude) : map?.getCenter() ?? null;
+    const area = mapMode === "area" ? searchArea : null;
+    // Pin requests are widened to cache tiles, so trim back to what the viewport actually shows.
+    const inView = (x: ComplexPin) =>
+      x.latitude >= bounds.south && x.latitude <= bounds.north && x.longitude >= bounds.west && x.longitude <= bounds.east;
+    const members = clusters.flatMap((cluster) =>
+      (cluster.complexes ?? []).filter((x) => x.portfolio_count > 0 && (!area || pointInPolygon([x.latitude, x.longitude], area))),
+    );
+    return [...complexes, ...members].filter(inView).map((x) =>
+      x.distance_m != null || !origin ? x : { ...x, distance_m: origin.distanceTo([x.latitude, x.longitude]) },
+    );
+  }, [complexes, clusters, nearbyCenter, bounds, mapMode, searchArea]);
+  const unlistedClusterCount = clusters.reduce((sum, cluster) => {
+    if (cluster.complexes) return sum;
+    const inView =
+      cluster.center_latitude >= bounds.south &&
+      cluster.center_latitude <= bounds.north &&
+      cluster.center_longitude >= bounds.west &&
+      cluster.center_longitude <= bounds.east;
+    return inView ? sum + cluster.count : sum;
+  }, 0);
+
+  const selectedFloorPlanImage = useMemo(() => {
+    return floorPlanUrl(selectedUnitType?.floor_plan_image_url);
+  }, [selectedUnitType]);
+
+  const floorPlanPins = useMemo<FloorPin[]>(() => portfolios.flatMap(portfolioPins), [portfolios]);
+  const placedFloorPins = useMemo(() => floorPlanPins.filter((x) => x.placed), [floorPlanPins]);
+  const cardDataGaps = useMemo(() => new Map(portfolios.map((card) => [card.portfolio_id, dataGaps(card)])), [portfolios]);
+  const roomPinCounts = useMemo(() => {
+    const counts = new Map<RoomCategory, number>();
+    floorPlanPins.forEach((pin) => {
+      if (pin.room) counts.set(pin.room, (counts.get(pin.room) ?? 0) + 1);
+    });
+    return ROOM_CATEGORIES.filter((room) => counts.has(room)).map((room) => ({ room, count: counts.get(room) ?? 0 }));
+  }, [floorPlanPins]);
+
+  useEffect(() => {
+    if (selectedPinnedPortfolioId == null) return;
+    if (selectedFloorPinId) return;
+    const firstPin = floorPlanPins.find((x) => x.portfolioId === selectedPinnedPortfolioId);
+    if (firstPin) setSelectedFloorPinId(firstPin.pinId);
+  }, [selectedPinnedPortfolioId, selectedFloorPinId, floorPlanPins]);
+
+  const selectedPinnedCard = useMemo(
+    () => portfolios.find((x) => x.portfolio_id === selectedPinnedPortfolioId) ?? null,
+    [portfolios, selectedPinnedPortfolioId],
+  );
+  const selectedFloorPin = useMemo(() => {
+    if (!selectedPinnedPortfolioId) return null;
+    if (selectedFloorPinId) {
+      const exact = floorPlanPins.find((x) => x.portfolioId === selectedPinnedPortfolioId && x.pinId === selectedFloorPinId);
+      if (exact) return exact;
+    }
+    return floorPlanPins.find((x) => x.portfolioId === selectedPinnedPortfolioId) ?? null;
+  }, [floorPlanPins, selectedPinnedPortfolioId, selectedFloorPinId]);
+
+  const galleryBeforeImages = useMemo(
+    () => (selectedFloorPin ? selectedFloorPin.beforeImageUrls : []),
+    [selectedFloorPin],
+  );
+  const galleryAfterImages = useMemo(
+    () => (selectedFloorPin ? selectedFloorPin.afterImageUrls : []),
+    [selectedFloorPin],
+  );
+
+  useEffect(() => {
+    if (!actionNotice) return;
+    const timer = window.setTimeout(() => setActionNotice(null), 2200);
+    return () => window.clearTimeout(timer);
+  }, [actionNotice]);
+
+  function firstPinIdForPortfolio(portfolioId: number): string {
+    const first = floorPlanPins.find((x) => x.portfolioId === portfolioId);
+    return first?.pinId ?? `${portfolioId}-pin-1`;
+  }
+
+  function lightboxImages(card: PortfolioCard, pin: FloorPin | null): LightboxImage[] {
+    const caption = `${pin?.title ?? "대표 사진"} · ${card.title} (#${card.portfolio_id})`;
+    const beforeUrls = pin?.beforeImageUrls ?? imageList(card, "before");
+    const afterUrls = pin?.afterImageUrls ?? imageList(card, "after");
+    return [
+      ...beforeUrls.map((url, idx) => ({ url, label: `Before ${idx + 1}/${beforeUrls.length}`, caption })),
+      ...afterUrls.map((url, idx) => ({ url, label: `After ${idx + 1}/${afterUrls.length}`, caption })),
+    ];
+  }
+
+  function openCardLightbox(card: PortfolioCard, side: CardImageSide) {
+    const pin = floorPlanPins.find((x) => x.portfolioId === card.portfolio_id) ?? null;
+    const images = lightboxImages(card, pin);
+    if (images.length === 0) return;
+    const beforeCount = pin?.beforeImageUrls.length ?? imageList(card, "before").length;
+    setLightbox({ images, index: side === "before" ? 0 : beforeCount });
+  }
+
+  function openGalleryLightbox(side: CardImageSide, idx: number) {
+    if (!selectedPinnedCard) return;
+    const images = lightboxImages(selectedPinnedCard, selectedFloorPin);
+    if (images.length === 0) return;
+    setLightbox({ images, index: side === "before" ? idx : galleryBeforeImages.length + idx });
+  }
+
+  function onFloorPinSelect(pin: FloorPin) {
+    const portfolioId = pin.portfolioId;
+    const defaultSide = selectedCardImages[portfolioId] ?? "after";
+    setSelectedCardImages((prev) => ({ ...prev, [portfolioId]: defaultSide }));
+    setSelectedPinnedPortfolioId(portfolioId);
+    setSelectedFloorPinId(pin.pinId);
+    setGallerySide(defaultSide);
+    setHighlightList(true);
+    window.requestAnimationFrame(() => {
+      const container = cardsRef.current;
+      if (!container) return;
+      const el = container.querySelector<HTMLElement>(`[data-portfolio-id="${portfolioId}"]`);
+      el?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    });
+  }
+
+  async function handleSelectComplex(complexId: number, fromMap = false, preferredUnitTypeId?: number | null) {
+    setStatus("단지 정보를 불러오는 중입니다.");
+    try {
+      const detail = await fetchComplexDetail(complexId);
+      setSelectedComplex(detail);
+      const preferred = detail.unit_types.find((x) => x.unit_type_id === preferredUnitTypeId);
+      const first = preferred ?? detail.unit_types[0] ?? null;
+      const pending = pendingRestoreRef.current;
+      if (pending && pending.complexId === complexId && pending.unitTypeId !== (first?.unit_type_id ?? null)) {
+        // The URL had no unit type or a stale one; restore finishes when the fallback's portfolios load.
+        pendingRestoreRef.current = { ...pending, unitTypeId: first?.unit_type_id ?? null, pinnedPortfolioId: null, floorPinId: null };
+      }
+      setSelectedUnitType(first);
+      if (fromMap) {
+        scrollCardsToTopRef.current = true;
+        setHighlightList(true);
+      }
+      if (!first) {
+        setPortfolios([]);
+        setStatus("이 단지는 타입 정보가 없습니다.");
+      }
+      return detail;
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : "단지 상세를 불러오지 못했습니다.");
+      return null;
+    }
+  }
+
+  function selectClusterMember(item: ComplexPin) {
+    setOpenCluster(null);
+    focusComplex(item);
+  }
+
+  function focusComplex(item: ComplexPin) {
+    const map = mapRef.current;
+    if (map) map.flyTo([item.latitude, item.longitude], Math.max(15, map.getZoom()));
+    void handleSelectComplex(item.complex_id, true);
+  }
+
+  function openSameLayout(item: SimilarUnitType) {
+    const map = mapRef.current;
+    if (map) map.flyTo([item.latitude, item.longitude], Math.max(15, map.getZoom()));
+    void handleSelectComplex(item.complex_id, true, item.unit_type.unit_type_id);
+  }
+
+  function showSameLayoutOnMap() {
+    const map = mapRef.current;
+    if (!map || sameLayoutItems.length === 0) return;
+    const points: L.LatLngExpression[] = sameLayoutItems.map((x) => [x.latitude, x.longitude]);
+    if (selectedPin) points.push([selectedPin.latitude, selectedPin.longitude]);
+    map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: 15 });
+  }
+
+  function applyRestoredPin(state: SearchState, cards: PortfolioCard[]) {
+    const found = state.pinnedPortfolioId != null && cards.some((x) => x.portfolio_id === state.pinnedPortfolioId);
+    setSelectedPinnedPortfolioId(found ? state.pinnedPortfolioId : null);
+    setSelectedFloorPinId(found ? state.floorPinId : null);
+    setGallerySide(state.gallerySide);
+    if (found && state.pinnedPortfolioId != null) {
+      const portfolioId = state.pinnedPortfolioId;
+      setSelectedCardImages((prev) => ({ ...prev, [portfolioId]: state.gallerySide }));
+    }
+  }
+
+  function finishRestore() {
+    pendingRestoreRef.current = null;
+    replaceNextSearchRef.current = true;
+    setRestoring(false);
+  }
+
+  async function restoreSearchState(state: SearchState) {
+    pendingRestoreRef.current = state;
+    lastSearchRef.current = state;
+    setRestoring(true);
+    setFilters({ ...DEFAULT_FILTERS, ...state.filters });
+    setPortfolioSort(state.sort);
+    setSearchArea(state.area);
+    setMapMode((prev) => (state.area ? "area" : prev === "area" ? "bounds" : prev));
+    if (state.view && mapRef.current) {
+      mapRef.current.setView([state.view.latitude, state.view.longitude], clamp(state.view.zoom, 7, 18));
+    }
+
+    if (state.complexId == null) {
+      setSelectedComplex(null);
+      setSelectedUnitType(null);
+      setPortfolios([]);
+      finishRestore();
+      return;
+    }
+
+    if (state.complexId === selectedComplex?.complex_id) {
+      const unit = selectedComplex.unit_types.find((x) => x.unit_type_id === state.unitTypeId) ?? selectedComplex.unit_types[0] ?? null;
+      if (unit && unit.unit_type_id !== state.unitTypeId) {
+        pendingRestoreRef.current = { ...state, unitTypeId: unit.unit_type_id, pinnedPortfolioId: null, floorPinId: null };
+      }
+      if (unit && unit.unit_type_id !== selectedUnitType?.unit_type_id) {
+        setSelectedUnitType(unit);
+        return;
+      }
+      applyRestoredPin(state, portfolios);
+      finishRestore();
+      return;
+    }
+
+    const detail = await handleSelectComplex(state.complexId, false, state.unitTypeId);
+    if (!detail || detail.unit_types.length === 0) finishRestore();
+  }
+
+  useEffect(() => {
+    if (initialSearch.complexId == null) return;
+    void restoreSearchState(initialSearch);
+  }, []);
+
+  useEffect(() => {
+    return subscribeLocation(() => {
+      if (!isMapPath(window.location.pathname)) return;
+      const state = readSearchState(window.location.pathname, window.location.search);
+      if (buildSearchUrl(state) === buildSearchUrl(lastSearchRef.current)) return;
+      void restoreSearchState(state);
+    });
+  }, [selectedComplex, selectedUnitType, portfolios]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (restoring || !map) return;
+    const center = map.getCenter();
+    const next: SearchState = {
+      view: { latitude: center.lat, longitude: center.lng, zoom: map.getZoom() },
+      area: mapMode === "area" ? searchArea : null,
+      complexId: selectedComplex?.complex_id ?? null,
+      unitTypeId: selectedUnitType?.unit_type_id ?? null,
+      filters,
+      sort: portfolioSort,
+      pinnedPortfolioId: selectedPinnedPortfolioId,
+      floorPinId: selectedPinnedPortfolioId != null ? selectedFloorPinId : null,
+      gallerySide,
+    };
+    const replace = replaceNextSearchRef.current || sameSelection(next, lastSearchRef.current);
+    replaceNextSearchRef.current = false;
+    lastSearchRef.current = next;
+    navigate(buildSearchUrl(next), { replace });
+  }, [
+    bounds,
+    mapMode,
+    searchArea,
+    selectedComplex,
+    selectedUnitType,
+    filters,
+    portfolioSort,
+    selectedPinnedPortfolioId,
+    selectedFloorPinId,
+    gallerySide,
+    restoring,
+    currentUser,
+    guestMode,
+  ]);
+
+  function toggleWorkScopeFilter(scope: WorkScopeType) {
+    setFilters((prev) => ({ ...prev, work_scope: prev.work_scope === scope ? undefined : scope }));
+  }
+
+  function toggleMinAreaFilter(area: number) {
+    setFilters((prev) => ({ ...prev, min_area: prev.min_area === area ? undefined : area }));
+  }
+
+  function clearFilter(clear: Partial<PortfolioFilters>) {
+    setFilters((prev) => {
+      const next = { ...prev, ...clear };
+      (Object.keys(clear) as Array<keyof PortfolioFilters>).forEach((key) => {
+        if (next[key] === undefined) delete next[key];
+      });
+      return next;
+    });
+  }
+
+  function openSaveSearch() {
+    const unitLabel = selectedUnitType ? ` ${Math.round(selectedUnitType.exclusive_area_m2)}${selectedUnitType.type_code ?? ""}` : "";
+    const scopeLabel = filters.work_scope ? ` ${workScopeLabel(filters.work_scope)}` : "";
+    setSaveSearchName(`${selectedComplex?.name ?? (mapMode === "area" ? "그린 영역" : "지도 범위")}${unitLabel}${scopeLabel}`);
+  }
+
+  async function submitSaveSearch() {
+    const name = saveSearchName?.trim();
+    if (!name) return;
+    try {
+      setSavingSearch(true);
+      await saveSearch({
+        name,
+        complex_id: selectedComplex?.complex_id ?? null,
+        unit_type_id: selectedUnitType?.unit_type_id ?? null,
+        area: mapMode === "area" ? searchArea : null,
+        bounds,
+        filters,
+      });
+      setSaveSearchName(null);
+      setActionNotice({ tone: "ok", message: `"${name}" 검색을 저장했습니다.` });
+    } catch (e) {
+      setActionNotice({ tone: "error", message: e instanceof Error ? e.message : "검색을 저장하지 못했습니다." });
+    } finally {
+      setSavingSearch(false);
+    }
+  }
+
+  function applyDrawerFilters(next: PortfolioFilters) {
+    setFilters(next);
+    setFilterDrawerOpen(false);
+  }
+
+  function filterByVendor(card: PortfolioCard) {
+    if (!card.vendor_id) {
+      setStatus("이 사례는 업체 정보가 없어 업체별 필터를 적용할 수 없습니다.");
+      return;
+    }
+    setFilters((prev) => ({ ...prev, vendor_id: card.vendor_id ?? undefined }));
+    setStatus(`${card.vendor_name ?? `업체 #${card.vendor_id}`} 사례만 표시합니다.`);
+  }
+
+  function selectVendorChip(vendorId?: number) {
+    setFilters((prev) => ({ ...prev, vendor_id: vendorId }));
+    if (vendorId == null) {
+      if (autoFavoriteVendorFilter && favoriteVendorIds.length > 0) {
+        setStatus(`즐겨찾기 업체 자동 적용: 업체 #${favoriteVendorIds[0]}`);
+      } else {
+        setStatus("전체 업체 사례를 표시합니다.");
+      }
+      return;
+    }
+    const vendor = vendorChips.find((x) => x.vendorId === vendorId);
+    setStatus(`${vendor?.name ?? `업체 #${vendorId}`} 사례만 표시합니다.`);
+  }
+
+  function toggleFavoriteVendor(vendorId: number) {
+    setFavoriteVendorIds((prev) =>
+      prev.includes(vendorId) ? prev.filter((x) => x !== vendorId) : [...prev, vendorId],
+    );
+  }
+
+  useEffect(() => {
+    if (mapMode !== "nearby" || !nearbyCenter) return;
+    let cancelled = false;
+    const run = async () => {
+      setLoadingMap(true);
+      try {
+        const data = await fetchNearbyComplexes(
+          nearbyCenter.latitude,
+          nearbyCenter.longitude,
+          nearbyRadiusM,
+          resolvedFilters,
+        );
+        if (cancelled) return;
+        const items = data.items.filter((x) => x.portfolio_count > 0);
+        setClusters([]);
+        setComplexes(items);
+        const vendorLabel = effectiveVendorId ? ` · 업체 #${effectiveVendorId}` : "";
+        const centerLabel = nearbyCenter.source === "gps" ? "내 위치" : "선택 지점";
+        const radiusLabel = nearbyRadiusM >= 1000 ? `${(nearbyRadiusM / 1000).toFixed(1)}km` : `${nearbyRadiusM}m`;
+        setStatus(`${centerLabel} 기준 ${radiusLabel} 내 ${items.length}개 단지${vendorLabel}`);
+      } catch (e) {
+        if (cancelled) return;
+        setStatus(e instanceof Error ? e.message : "근처 단지를 불러오지 못했습니다.");
+      } finally {
+        if (!cancelled) setLoadingMap(false);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [mapMode, nearbyCenter, nearbyRadiusM, resolvedFilters]);
+
+  function clearQuickFilters() {
+    setFilters((prev) => ({ ...prev, work_scope: undefined, min_area: undefined }));
+  }
+
+  async function focusNearby() {
+    if (!navigator.geolocation) {
+      setStatus("이 브라우저는 위치 정보를 지원하지 않습니다.");
+      return;
+    }
+
+    setStatus("현재 위치를 확인하는 중입니다.");
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        startNearbySearch({ latitude: pos.coords.latitude, longitude: pos.coords.longitude, source: "gps" });
+      },
+      (err) => {
+        if (err.code === err.PERMISSION_DENIED) {
+          setStatus("위치 권한이 거부되었습니다. 브라우저에서 위치 권한을 허용해 주세요.");
+          return;
+        }
+        setStatus("위치 정보를 가져오지 못했습니다.");
+      },
+      { enableHighAccuracy: true, timeout: 9000, maximumAge: 0 },
+    );
+  }
+
+  function startNearbySearch(center: NearbyCenter) {
+    setNearbyCenter(center);
+    setSearchArea(null);
+    setDrawingArea(false);
+    if (mapRef.current) {
+      mapRef.current.setView([center.latitude, center.longitude], Math.max(14, mapRef.current.getZoom()));
+    }
+    setMapMode("nearby");
+    setStatus("근처 단지를 조회하는 중입니다.");
+  }
+
+  function togglePickNearbyCenter() {
+    if (pickingNearbyCenter) {
+      setPickingNearbyCenter(false);
+      setStatus("기준 지점 선택을 취소했습니다.");
+      return;
+    }
+    setDrawingArea(false);
+    setPickingNearbyCenter(true);
+    setStatus("지도에서 주변 검색의 기준 지점을 클릭하세요.");
+  }
+
+  function commitNearbyRadius() {
+    if (nearbyRadiusDraft !== nearbyRadiusM) setNearbyRadiusM(nearbyRadiusDraft);
+  }
+
+  function startAreaDrawing() {
+    setPickingNearbyCenter(false);
+    areaDraftRef.current = [];
+    setAreaDraft([]);
+    setDrawingArea(true);
+    setStatus("지도를 클릭해 영역 꼭짓점을 찍고, 더블클릭하거나 완료를 누르세요.");
+  }
+
+  function cancelAreaDrawing() {
+    areaDraftRef.current = [];
+    setAreaDraft([]);
+    setDrawingArea(false);
+    setStatus(mapMode === "area" ? "기존 영역 검색을 유지합니다." : "영역 그리기를 취소했습니다.");
+  }
+
+  function finishAreaDrawing() {
+    const points = areaDraftRef.current.filter((point, idx, all) => {
+      const prev = all[idx - 1];
+      return !prev || Math.abs(prev[0] - point[0]) > 1e-6 || Math.abs(prev[1] - point[1]) > 1e-6;
+    });
+    if (points.length < 3) {
+      setStatus("영역을 만들려면 꼭짓점을 3개 이상 찍어 주세요.");
+      return;
+    }
+    areaDraftRef.current = [];
+    setAreaDraft([]);
+    setDrawingArea(false);
+    setSearchArea(points);
+    setMapMode("area");
+    setNearbyCenter(null);
+    mapRef.current?.fitBounds(L.latLngBounds(points), { padding: [24, 24] });
+    setStatus("그린 영역 안의 단지만 표시합니다.");
+  }
+
+  function clearSearchArea() {
+    setSearchArea(null);
+    setMapMode("bounds");
+    syncBoundsFromMap();
+    setStatus("영역 검색을 해제했습니다.");
+  }
+
+  function backToBoundsMode() {
+    setMapMode("bounds");
+    setSearchArea(null);
+    setNearbyCenter(null);
+    syncBoundsFromMap();
+    setStatus("일반 지도 탐색 모드로 전환했습니다.");
+  }
+
+  async function onFavorite(portfolioId: number) {
+    if (!currentUser) {
+      setActionNotice({ tone: "error", message: "로그인이 필요합니다." });
+      return;
+    }
+
+    try {
+      await saveFavorite(currentUser.user_key, portfolioId);
+      setSavedPortfolioIds((prev) => (prev.includes(portfolioId) ? prev : [...prev, portfolioId]));
+      setActionNotice({ tone: "ok", message: "즐겨찾기에 저장했습니다." });
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "즐겨찾기 저장 실패";
+      if (msg.includes("already exists")) {
+        setSavedPortfolioIds((prev) => (prev.includes(portfolioId) ? prev : [...prev, portfolioId]));
+        setActionNotice({ tone: "ok", message: "이미 즐겨찾기에 저장된 항목입니다." });
+        return;
+      }
+      setActionNotice({ tone: "error", message: msg });
+    }
+  }
+
+  function toggleCompare(card: PortfolioCard) {
+    if (compareCards.some((x) => x.portfolio_id === card.portfolio_id)) {
+      removeFromCompare(card.portfolio_id);
+      return;
+    }
+    if (compareCards.length >= MAX_COMPARE) {
+      setActionNotice({ tone: "error", message: `비교는 최대 ${MAX_COMPARE}건까지 가능합니다.` });
+      return;
+    }
+    setCompareCards((prev) => [...prev, card]);
+  }
+
+  function removeFromCompare(portfolioId: number) {
+    const next = compareCards.filter((x) => x.portfolio_id !== portfolioId);
+    setCompareCards(next);
+    if (next.length < 2) setCompareOpen(false);
+  }
+
+  function openQuoteModal(card: PortfolioCard) {
+    setQuoteModalCard(card);
+    setQuoteMessage(`${card.title} 관련 상담 요청`);
+  }
+
+  function closeQuoteModal() {
+    if (quoteSubmitting) return;
+    setQuoteModalCard(null);
+    setQuoteMessage("");
+  }
+
+  async function submitQuote() {
+    const card = quoteModalCard;
+    if (!card) return;
+    if (!currentUser) {
+      setActionNotice({ tone: "error", message: "로그인이 필요합니다." });
+      return;
+    }
+
+    try {
+      setQuoteSubmitting(true);
+      const result = await requestQuote({
+        authToken,
+        userKey: currentUser.user_key,
+        requesterName: currentUser.display_name,
+        requesterEmail: currentUser.email,
+        vendorId: card.vendor_id ?? undefined,
+        portfolioId: card.portfolio_id,
+        message: quoteMessage.trim() || `${card.title} 관련 상담 요청`,
+      });
+      setQuotedPortfolioIds((prev) => (prev.includes(card.portfolio_id) ? prev : [...prev, card.portfolio_id]));
+      setActionNotice({ tone: "ok", message: `문의 접수 완료 (${formatDateTimeLabel(result.created_at)})` });
+      setQuoteModalCard(null);
+      setQuoteMessage("");
+    } catch (e) {
+      setActionNotice({ tone: "error", message: e instanceof Error ? e.message : "문의 접수에 실패했습니다." });
+    } finally {
+      setQuoteSubmitting(false);
+    }
+  }
+
+  function resetMapView() {
+    if (!mapRef.current) return;
+    mapRef.current.setView(DEFAULT_CENTER, DEFAULT_BOUNDS.zoom);
+    setMapMode("bounds");
+    setSearchArea(null);
+    setNearbyCenter(null);
+  }
+
+  if (!currentUser && !guestMode) {
+    return <LoginPage onGuest={() => setGuestMode(true)} />;
+  }
+
+  return (
+    <div className="page">
+      <Topbar>
+        <ComplexSearchBox onSelect={focusComplex} />
+      </Topbar>
+
+      <section className="preset-row">
+        <button className={filters.work_scope === "partial" ? "active-chip" : ""} onClick={() => toggleWorkScopeFilter("partial")}>
+          부분공사
+        </button>
+        <button className={filters.work_scope === "full_remodeling" ? "active-chip" : ""} onClick={() => toggleWorkScopeFilter("full_remodeling")}>
+          전체 리모델링
+        </button>
+        <button className={filters.work_scope === "kitchen" ? "active-chip" : ""} onClick={() => toggleWorkScopeFilter("kitchen")}>
+          주방
+        </button>
+        <button className={filters.work_scope === "bathroom" ? "active-chip" : ""} onClick={() => toggleWorkScopeFilter("bathroom")}>
+          욕실
+        </button>
+        <button className={filters.min_area === 59 ? "active-chip" : ""} onClick={() => toggleMinAreaFilter(59)}>
+          59m2+
+        </button>
+        <button className={filters.min_area === 84 ? "active-chip" : ""} onClick={() => toggleMinAreaFilter(84)}>
+          84m2+
+        </button>
+        {(filters.work_scope || filters.min_area !== undefined) ? (
+          <button onClick={clearQuickFilters}>빠른필터 초기화</button>
+        ) : null}
+        <button onClick={() => setFilterDrawerOpen(true)}>상세 필터</button>
+        {currentUser ? <button onClick={openSaveSearch}>검색 저장</button> : null}
+        {activeFilterChips.map((chip) => (
+          <button key={chip.id} className="active-chip" onClick={() => clearFilter(chip.clear)}>
+            {chip.label} ×
+          </button>
+        ))}
+      </section>
+      {actionNotice ? (
+        <p className={actionNotice.tone === "ok" ? "action-notice ok" : "action-notice error"}>
+          {actionNotice.message}
+        </p>
+      ) : null}
+
+      <main className="content">
+        <section className="map-panel">
+          <div className="map-toolbar">
+            <button onClick={resetMapView}>초기화</button>
+            <button onClick={() => void focusNearby()}>내 위치 주변</button>
+            <button className={pickingNearbyCenter ? "active" : ""} onClick={togglePickNearbyCenter}>
+              {pickingNearbyCenter ? "지점 선택 취소" : "지점 주변"}
+            </button>
+            <label className="radius-slider">
+              반경 {nearbyRadiusDraft >= 1000 ? `${(nearbyRadiusDraft / 1000).toFixed(1)}km` : `${nearbyRadiusDraft}m`}
+              <input
+                type="range"
+                min={MIN_NEARBY_RADIUS_M}
+                max={MAX_NEARBY_RADIUS_M}
+                step={100}
+                value={nearbyRadiusDraft}
+                onChange={(e) => setNearbyRadiusDraft(Number(e.target.value))}
+                onPointerUp={commitNearbyRadius}
+                onKeyUp={commitNearbyRadius}
+              />
+            </label>
+            {mapMode === "nearby" ? <button onClick={backToBoundsMode}>일반 탐색</button> : null}
+            {drawingArea ? (
+              <>
+                <button onClick={finishAreaDrawing} disabled={areaDraft.length < 3}>
+                  영역 완료 ({areaDraft.length})
+                </button>
+                <button onClick={cancelAreaDrawing}>취소</button>
+              </>
+            ) : (
+              <button onClick={startAreaDrawing}>{mapMode === "area" ? "영역 다시 그리기" : "영역 그리기"}</button>
+            )}
+            {mapMode === "area" && !drawingArea ? <button onClick={clearSearchArea}>영역 해제</button> : null}
+            <button
+              className={heatmapMetric ? "active" : ""}
+              onClick={() => setHeatmapMetric((prev) => (prev ? null : "portfolio_count"))}
+            >
+              히트맵
+            </button>
+            {heatmapMetric ? (
+              <select value={heatmapMetric} onChange={(e) => setHeatmapMetric(e.target.value as HeatmapMetric)}>
+                <option value="portfolio_count">포트폴리오 밀도</option>
+                <option value="median_budget">예산 중앙값</option>
+              </select>
+            ) : null}
+            {loadingMap ? <span>지도 로딩 중...</span> : null}
+          </div>
+          <div className="map-stage">
+            <div className="map-canvas" ref={mapContainerRef} />
+            {heatmapScale ? <HeatmapLegend scale={heatmapScale} /> : null}
+          </div>
+          {openCluster
+            ? createPortal(
+                <ClusterPopover
+                  count={openCluster.count}
+                  items={clusterMembers}
+                  error={clusterMembersError}
+                  distanceCaption={
+                    nearbyCenter ? (nearbyCenter.source === "gps" ? "내 위치 기준 거리" : "기준 지점 기준 거리") : "지도 중심 기준 거리"
+                  }
+                  onSelect={selectClusterMember}
+                />,
+                clusterPopoverEl,
+              )
+            : null}
+          <ComplexListPanel
+            items={listComplexes}
+            unlistedCount={unlistedClusterCount}
+            selectedComplexId={selectedComplex?.complex_id ?? null}
+            hoveredComplexId={hoveredComplexId}
+            onHover={setHoveredComplexId}
+            onSelect={focusComplex}
+          />
+        </section>
+
+        <section className="sheet">
+          <div className="sheet-head">
+            <h2>{selectedComplex?.name ?? "단지를 선택하세요"}</h2>
+            <p>{selectedComplex?.address ?? "지도에서 단지 핀을 클릭하면 상세가 열립니다."}</p>
+            {selectedDistance != null && nearbyCenter ? (
+              <p className="distance-pill">
+                {nearbyCenter.source === "gps" ? "현재 위치에서" : "기준 지점에서"} 약 {Math.round(selectedDistance)}m
+              </p>
+            ) : null}
+            {selectedPin ? (
+              <button
+                className="nearby-here-btn"
+                onClick={() =>
+                  startNearbySearch({ latitude: selectedPin.latitude, longitude: selectedPin.longitude, source: "custom" })
+                }
+              >
+                이 단지 주변 검색
+              </button>
+            ) : null}
+          </div>
+
+          <div className="type-chips">
+            {unitTypeButtons.length > 1 ? (
+              <button className="chip type-compare-btn" onClick={() => setUnitCompareOpen(true)}>
+                평형 비교
+              </button>
+            ) : null}
+            {unitTypeButtons.map((unit) => {
+              const active = selectedUnitType?.unit_type_id === unit.unit_type_id;
+              return (
+                <button
+                  key={unit.unit_type_id}
+                  className={active ? "chip active" : "chip"}
+                  onClick={() => setSelectedUnitType(unit)}
+                >
+                  {Math.round(unit.exclusive_area_m2)}
+                  {unit.type_code ? unit.type_code : ""}
+                  <em>{unit.portfolio_count}</em>
+                </button>
+              );
+            })}
+          </div>
+          <div className="vendor-chips">
+            <button
+              className={autoFavoriteVendorFilter ? "chip active" : "chip"}
+              onClick={() => setAutoFavoriteVendorFilter((prev) => !prev)}
+              title="업체를 직접 고르지 않았을 때 즐겨찾기 업체를 자동으로 적용합니다."
+            >
+              즐겨찾기 업체 자동 적용
+            </button>
+            <input
+              className="vendor-search"
+              value={vendorSearch}
+              onChange={(e) => setVendorSearch(e.target.value)}
+              placeholder="업체명 검색"
+            />
+            <button
+              className={filters.vendor_id === undefined ? "chip active" : "chip"}
+              onClick={() => selectVendorChip(undefined)}
+            >
+              전체 업체
+            </button>
+            {vendorChips.map((vendor) => (
+              <div key={vendor.vendorId} className="vendor-chip-item">
+                <button
+                  className={filters.vendor_id === vendor.vendorId ? "chip active" : "chip"}
+                  onClick={() => selectVendorChip(vendor.vendorId)}
+                >
+                  {vendor.name}
+                  <em>{vendor.count}</em>
+                </button>
+                <button
+                  className={vendor.favorite ? "vendor-fav active" : "vendor-fav"}
+                  onClick={() => toggleFavoriteVendor(vendor.vendorId)}
+                  title={vendor.favorite ? "즐겨찾기 해제" : "즐겨찾기"}
+                >
+                  {vendor.favorite ? "★" : "☆"}
+                </button>
+              </div>
+            ))}
+          </div>
+          <p className="vendor-help">
+            직접 업체를 고르지 않으면 즐겨찾기 업체가 자동 적용됩니다.
+          </p>
+          {selectedUnitType ? (
+            <section className="floor-plan-panel">
+              <div className="floor-plan-head">
+                <h3>평면도</h3>
+                <p>
+                  {Math.round(selectedUnitType.exclusive_area_m2)}
+                  {selectedUnitType.type_code ?? ""}
+                  {selectedUnitType.structure_keyword ? ` · ${selectedUnitType.structure_keyword}` : ""}
+                </p>
+              </div>
+              {roomPinCounts.length > 0 ? (
+                <div className="room-filter-row">
+                  <button className={roomFilter == null ? "active" : ""} onClick={() => setRoomFilter(null)}>
+                    전체
+                  </button>
+                  {roomPinCounts.map(({ room, count }) => (
+                    <button
+                      key={room}
+                      className={roomFilter === room ? "active" : ""}
+                      onClick={() => setRoomFilter((prev) => (prev === room ? null : room))}
+                    >
+                      {roomLabel(room)} {count}
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+              <FloorPlanViewer
+                imageUrl={selectedFloorPlanImage}
+                fallbackUrl={FLOOR_PLAN_FALLBACK_URL}
+                pins={placedFloorPins}
+                portfolios={portfolios}
+                activePortfolioId={selectedPinnedPortfolioId}
+                activePinId={selectedFloorPinId}
+                highlightRoom={roomFilter}
+                onSelect={onFloorPinSelect}
+              />
+              {roomFilter ? (
+                <RoomGallery
+                  room={roomFilter}
+                  pins={floorPlanPins}
+                  portfolios={portfolios}
+                  portfoliosTotal={portfoliosTotal}
+                  onOpenLightbox={(images, index) => setLightbox({ images, index })}
+                  onSelectPin={onFloorPinSelect}
+                />
+              ) : null}
+              {selectedPinnedCard ? (
+                <div className="pin-gallery">
+                  <div className="pin-gallery-head">
+                    <strong>{selectedPinnedCard.title}</strong>
+                    <span>
+                      {selectedFloorPin?.title ?? "핀"} · #{selectedPinnedCard.portfolio_id}
+                    </span>
+                  </div>
+                  <div className="pin-gallery-tabs">
+                    <button
+                      className={!galleryCompare && gallerySide === "before" ? "active" : ""}
+                      onClick={() => {
+                        setGalleryCompare(false);
+                        setGallerySide("before");
+                      }}
+                    >
+                      Before {galleryBeforeImages.length}
+                    </button>
+                    <button
+                      className={!galleryCompare && gallerySide === "after" ? "active" : ""}
+                      onClick={() => {
+                        setGalleryCompare(false);
+                        setGallerySide("after");
+                      }}
+                    >
+                      After {galleryAfterImages.length}
+                    </button>
+                    <button
+                      className={galleryCompare ? "active" : ""}
+                      onClick={() => setGalleryCompare(true)}
+                      disabled={galleryBeforeImages.length === 0 && galleryAfterImages.length === 0}
+                    >
+                      비교
+                    </button>
+                  </div>
+                  {galleryCompare ? (
+                    <BeforeAfterCompare beforeUrls={galleryBeforeImages} afterUrls={galleryAfterImages} />
+                  ) : (gallerySide === "before" ? galleryBeforeImages : galleryAfterImages).length === 0 ? (
+                    <p className="state">{gallerySide === "before" ? "Before" : "After"} 사진이 없습니다.</p>
+                  ) : (
+                    <div className="pin-gallery-grid">
+                      {(gallerySide === "before" ? galleryBeforeImages : galleryAfterImages).map((url, idx) => (
+                        <img
+                          key={`${gallerySide}-${idx}`}
+                          src={url}
+                          alt={`${gallerySide}-${idx + 1}`}
+                          loading="lazy"
+                          onClick={() => openGalleryLightbox(gallerySide, idx)}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : null}
+            </section>
+          ) : null}
+          {selectedComplex && selectedUnitType ? (
+            <CostEstimator
+              complexId={selectedComplex.complex_id}
+              unitType={selectedUnitType}
+              defaultScope={filters.work_scope}
+            />
+          ) : null}
+          {selectedComplex && selectedUnitType ? (
+            <SameLayoutPanel
+              complexId={selectedComplex.complex_id}
+              unitType={selectedUnitType}
+              onResults={setSameLayoutItems}
+              onOpen={openSameLayout}
+              onShowAll={showSameLayoutOnMap}
+            />
+          ) : null}
+
+          {loadingPortfolios ? <p className="state">포트폴리오 로딩 중...</p> : null}
+          {selectedUnitType ? (
+            <div className="cards-toolbar">
+              <p className="cards-count">
+                {!loadingPortfolios && portfoliosTotal > 0 ? `전체 ${portfoliosTotal}건 중 ${portfolios.length}건 표시` : ""}
+              </p>
+              <select
+                value={portfolioSort}
+                onChange={(e) => setPortfolioSort(e.target.value as PortfolioSort)}
+                aria-label="사례 정렬"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option
+                    key={option.value}
+                    value={option.value}
+                    disabled={option.value === "favorite_vendors" && favoriteVendorIds.length === 0}
+                  >
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : null}
+
+          <div ref={cardsRef} className={highlightList ? "cards cards-highlight" : "cards"}>
+            {portfolios.map((card) => (
+              <article
+                key={card.portfolio_id}
+                data-portfolio-id={card.portfolio_id}
+                className={selectedPinnedPortfolioId === card.portfolio_id ? "portfolio-card active" : "portfolio-card"}
+              >
+                <div className="thumbs">
+                  <div className="thumb-wrap">
+                    <button
+                      type="button"
+                      className={selectedCardImages[card.portfolio_id] === "before" ? "thumb selected" : "thumb"}
+                      onClick={() => {
+                        setSelectedCardImages((prev) => ({ ...prev, [card.portfolio_id]: "before" }));
+                        setSelectedPinnedPortfolioId(card.portfolio_id);
+                        setSelectedFloorPinId(firstPinIdForPortfolio(card.portfolio_id));
+                        setGallerySide("before");
+                      }}
+                    >
+                      {imageList(card, "before")[0] ? (
+                        <img
+                          src={imageList(card, "before")[0]}
+                          alt={`${card.title} before`}
+                          loading="lazy"
+                          onError={(e) => {
+                            const img = e.currentTarget;
+                            const fallback = fallbackImageUrl("before", card.portfolio_id);
+                            if (!fallback || img.src === fallback) return;
+                            img.src = fallback;
+                          }}
+                        />
+                      ) : (
+                        <span className="thumb-missing">사진 없음</span>
+                      )}
+                      <strong>Before</strong>
+                      {selectedCardImages[card.portfolio_id] === "before" ? <i className="thumb-pin">PIN</i> : null}
+                    </button>
+                    {imageList(card, "before").length > 0 ? (
+                      <button
+                        type="button"
+                        className="thumb-zoom"
+                        onClick={() => openCardLightbox(card, "before")}
+                        aria-label={`${card.title} Before 크게 보기`}
+                      >
+                        ⤢
+                      </button>
+                    ) : null}
+                  </div>
+                  <div className="thumb-wrap">
+                    <button
+                      type="button"
+                      className={selectedCardImages[card.portfolio_id] === "after" ? "thumb selected" : "thumb"}
+                      onClick={() => {
+                        setSelectedCardImages((prev) => ({ ...prev, [card.portfolio_id]: "after" }));
+                        setSelectedPinnedPortfolioId(card.portfolio_id);
+                        setSelectedFloorPinId(firstPinIdForPortfolio(card.portfolio_id));
+                        setGallerySide("after");
+                      }}
+                    >
+                      {imageList(card, "after")[0] ? (
+                        <img
+                          src={imageList(card, "after")[0]}
+                          alt={`${card.title} after`}
+                          loading="lazy"
+                          onError={(e) => {
+                            const img = e.currentTarget;
+                            const fallback = fallbackImageUrl("after", card.portfolio_id);
+                            if (!fallback || img.src === fallback) return;
+                            img.src = fallback;
+                          }}
+                        />
+                      ) : (
+                        <span className="thumb-missing">사진 없음</span>
+                      )}
+                      <strong>After</strong>
+                      {selectedCardImages[card.portfolio_id] === "after" ? <i className="thumb-pin">PIN</i> : null}
+                    </button>
+                    {imageList(card, "after").length > 0 ? (
+                      <button
+                        type="button"
+                        className="thumb-zoom"
+                        onClick={() => openCardLightbox(card, "after")}
+                        aria-label={`${card.title} After 크게 보기`}
+                      >
+                        ⤢
+                      </button>
+                    ) : null}
+                  </div>
+                </div>
+                <h3>
+                  <Link to={`/portfolios/${card.portfolio_id}`}>{card.title}</Link>
+                </h3>
+                <p className="card-summary">{cardSummary(card)}</p>
+                <div className="meta compact">
+                  <span>{card.style}</span>
+                  <span>{card.work_scope}</span>
+                  {cardDataGaps.get(card.portfolio_id)?.length ? (
+                    <span className="data-gap-badge" title={cardDataGaps.get(card.portfolio_id)?.join(", ")}>
+                      정보 일부 없음
+                    </span>
+                  ) : null}
+                </div>
+                <div className="actions">
+                  <button
+                    className={compareCards.some((x) => x.portfolio_id === card.portfolio_id) ? "ghost compare-toggle active" : "ghost compare-toggle"}
+                    onClick={() => toggleCompare(card)}
+                    aria-pressed={compareCards.some((x) => x.portfolio_id === card.portfolio_id)}
+                  >
+                    비교
+                  </button>
+                  <button className="ghost" onClick={() => filterByVendor(card)} disabled={!card.vendor_id}>
+                    같은 업체만
+                  </button>
+                  <button className="ghost" onClick={() => onFavorite(card.portfolio_id)}>
+                    {savedPortfolioIds.includes(card.portfolio_id) ? "저장됨" : "저장"}
+                  </button>
+                  <button className="solid" onClick={() => openQuoteModal(card)} disabled={quotedPortfolioIds.includes(card.portfolio_id)}>
+                    {quotedPortfolioIds.includes(card.portfolio_id) ? "문의완료" : "문의"}
+                  </button>
+                </div>
+              </article>
+            ))}
+            {!loadingPortfolios && portfolios.length === 0 ? <p className="state">선택한 조건의 사례가 없습니다.</p> : null}
+            {hasMorePortfolios ? <div ref={cardsEndRef} className="cards-sentinel" /> : null}
+            {loadingMorePortfolios ? <p className="state">사례를 더 불러오는 중...</p> : null}
+          </div>
+        </section>
+      </main>
+      {filterDrawerOpen ? (
+        <FilterDrawer
+          filters={filters}
+          styleOptions={styleOptions}
+          onApply={applyDrawerFilters}
+          onClose={() => setFilterDrawerOpen(false)}
+        />
+      ) : null}
+
+      {saveSearchName != null ? (
+        <div className="quote-modal-backdrop" onClick={() => !savingSearch && setSaveSearchName(null)}>
+          <section className="quote-modal" onClick={(e) => e.stopPropagation()}>
+            <h3>검색 저장</h3>
+            <p>현재 지도 범위, 단지·평형과 필터를 저장하고 새 사례가 올라오면 알려 드립니다.</p>
+            <input
+              className="save-search-input"
+              value={saveSearchName}
+              onChange={(e) => setSaveSearchName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") void submitSaveSearch();
+              }}
+              placeholder="검색 이름"
+              maxLength={60}
+              autoFocus
+            />
+            <div className="quote-modal-actions">
+              <button className="ghost" onClick={() => setSaveSearchName(null)} disabled={savingSearch}>취소</button>
+              <button className="solid" onClick={() => void submitSaveSearch()} disabled={savingSearch || !saveSearchName.trim()}>
+                {savingSearch ? "저장 중..." : "저장"}
+              </button>
+            </div>
+          </section>
+        </div>
+      ) : null}
+
+      {compareCards.length > 0 ? (
+        <aside className="compare-tray" aria-label="비교할 사례">
+          <ul>
+            {compareCards.map((card) => (
+              <li key={card.portfolio_id}>
+                <span className="compare-swatch" style={{ background: compareColors.get(card.portfolio_id) }} />
+                <span className="compare-tray-title">{card.title}</span>
+                <button onClick={() => removeFromCompare(card.portfolio_id)} aria-label={`${card.title} 비교에서 빼기`}>
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+          <span className="compare-tray-count">
+            {compareCards.length}/{MAX_COMPARE}
+          </span>
+          <button className="ghost" onClick={() => setCompareCards([])}>
+            비우기
+          </button>
+          <button className="solid" onClick={() => setCompareOpen(true)} disabled={compareCards.length < 2}>
+            비교하기
+          </button>
+        </aside>
+      ) : null}
+
+      {unitCompareOpen && selectedComplex ? (
+        <UnitTypeCompare
+          complexName={selectedComplex.name}
+          units={selectedComplex.unit_types}
+          selectedUnitTypeId={selectedUnitType?.unit_type_id ?? null}
+          onSelect={(unit) => {
+            setSelectedUnitType(unit);
+            setUnitCompareOpen(false);
+          }}
+          onClose={() => setUnitCompareOpen(false)}
+        />
+      ) : null}
+
+      {compareOpen && compareCards.length >= 2 ? (
+        <PortfolioCompare
+          cards={compareCards}
+          colors={compareColors}
+          floorPlanUrl={selectedFloorPlanImage}
+          onRemove={removeFromCompare}
+          onClose={() => setCompareOpen(false)}
+        />
+      ) : null}
+
+      {lightbox ? (
+        <Lightbox images={lightbox.images} startIndex={lightbox.index} onClose={() => setLightbox(null)} />
+      ) : null}
+
+      {quoteModalCard ? (
+        <div className="quote-modal-backdrop" onClick={closeQuoteModal}>
+          <section className="quote-modal" onClick={(e) => e.stopPropagation()}>
+            <h3>문의 보내기</h3>
+            <p>{quoteModalCard.title}</p>
+            <textarea
+              value={quoteMessage}
+              onChange={(e) => setQuoteMessage(e.target.value)}
+              placeholder="문의 내용을 입력하세요."
+              rows={5}
+            />
+            <div className="quote-modal-actions">
+              <button className="ghost" onClick={closeQuoteModal} disabled={quoteSubmitting}>취소</button>
+              <button className="solid" onClick={() => void submitQuote()} disabled={quoteSubmitting}>
+                {quoteSubmitting ? "전송 중..." : "문의 전송"}
+              </button>
+            </div>
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+}
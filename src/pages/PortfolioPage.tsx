@@ -0,0 +1,295 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { fetchPortfolioDetail, requestQuote, saveFavorite } from "../api";
+import { useAuth } from "../auth";
+import BeforeAfterCompare from "../components/BeforeAfterCompare";
+import Lightbox, { type LightboxImage } from "../components/Lightbox";
+import Topbar from "../components/Topbar";
+import { formatDateTimeLabel, priceLabel, styleList, workScopeLabel } from "../format";
+import { dataGaps, portfolioPins } from "../portfolioMedia";
+import { Link } from "../router";
+import type { PortfolioDetailResponse } from "../types";
+import { buildSearchUrl, EMPTY_SEARCH_STATE } from "../urlState";
+import LoginPage from "./LoginPage";
+
+// Vendor sites come from partner input; only plain web links are rendered.
+function webUrl(url?: string | null) {
+  if (!url) return null;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+export default function PortfolioPage({ portfolioId }: { portfolioId: number }) {
+  const { authToken, currentUser, guestMode, setGuestMode } = useAuth();
+  const [portfolio, setPortfolio] = useState<PortfolioDetailResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activePinIndex, setActivePinIndex] = useState(0);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [notice, setNotice] = useState<{ tone: "ok" | "error"; message: string } | null>(null);
+  const [favorited, setFavorited] = useState(false);
+  const [quoteMessage, setQuoteMessage] = useState<string | null>(null);
+  const [quoteSubmitting, setQuoteSubmitting] = useState(false);
+  const [quoted, setQuoted] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const detail = await fetchPortfolioDetail(portfolioId);
+        if (cancelled) return;
+        setPortfolio(detail);
+      } catch (e) {
+        if (cancelled) return;
+        setError(e instanceof Error ? e.message : "포트폴리오를 불러오지 못했습니다.");
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [portfolioId]);
+
+  const pins = useMemo(() => (portfolio ? portfolioPins(portfolio) : []), [portfolio]);
+  const activePin = pins[activePinIndex] ?? null;
+  const placedPinCount = pins.filter((x) => x.placed).length;
+  const gaps = portfolio ? dataGaps(portfolio) : [];
+
+  // Every image of every pin, in walkthrough order, so the lightbox can step through the whole job.
+  const lightboxImages = useMemo<LightboxImage[]>(() => {
+    if (!portfolio) return [];
+    return pins.flatMap((pin, pinIdx) => {
+      const caption = `${pinIdx + 1}. ${pin.title ?? "포인트"} · ${portfolio.title}`;
+      return [
+        ...pin.beforeImageUrls.map((url, idx) => ({ url, caption, label: `Before ${idx + 1}/${pin.beforeImageUrls.length}` })),
+        ...pin.afterImageUrls.map((url, idx) => ({ url, caption, label: `After ${idx + 1}/${pin.afterImageUrls.length}` })),
+      ];
+    });
+  }, [portfolio, pins]);
+
+  function lightboxOffset(pinIdx: number) {
+    return pins.slice(0, pinIdx).reduce((sum, pin) => sum + pin.beforeImageUrls.length + pin.afterImageUrls.length, 0);
+  }
+
+  async function onFavorite() {
+    if (!portfolio) return;
+    if (!currentUser) {
+      setNotice({ tone: "error", message: "로그인이 필요합니다." });
+      return;
+    }
+    try {
+      await saveFavorite(currentUser.user_key, portfolio.portfolio_id);
+      setFavorited(true);
+      setNotice({ tone: "ok", message: "즐겨찾기에 저장했습니다." });
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "즐겨찾기 저장 실패";
+      if (msg.includes("already exists")) {
+        setFavorited(true);
+        setNotice({ tone: "ok", message: "이미 즐겨찾기에 저장된 항목입니다." });
+        return;
+      }
+      setNotice({ tone: "error", message: msg });
+    }
+  }
+
+  async function submitQuote() {
+    if (!portfolio || quoteMessage == null) return;
+    if (!currentUser) {
+      setNotice({ tone: "error", message: "로그인이 필요합니다." });
+      return;
+    }
+    try {
+      setQuoteSubmitting(true);
+      const result = await requestQuote({
+        authToken,
+        userKey: currentUser.user_key,
+        requesterName: currentUser.display_name,
+        requesterEmail: currentUser.email,
+        vendorId: portfolio.vendor_id ?? undefined,
+        portfolioId: portfolio.portfolio_id,
+        message: quoteMessage.trim() || `${portfolio.title} 관련 상담 요청`,
+      });
+      setQuoted(true);
+      setQuoteMessage(null);
+      setNotice({ tone: "ok", message: `문의 접수 완료 (${formatDateTimeLabel(result.created_at)})` });
+    } catch (e) {
+      setNotice({ tone: "error", message: e instanceof Error ? e.message : "문의 접수에 실패했습니다." });
+    } finally {
+      setQuoteSubmitting(false);
+    }
+  }
+
+  if (!currentUser && !guestMode) {
+    return <LoginPage onGuest={() => setGuestMode(true)} />;
+  }
+
+  const mapUrl = portfolio
+    ? buildSearchUrl({
+        ...EMPTY_SEARCH_STATE,
+        complexId: portfolio.complex_id,
+        unitTypeId: portfolio.unit_type_id,
+        pinnedPortfolioId: portfolio.portfolio_id,
+        floorPinId: activePin?.placed ? activePin.pinId : null,
+      })
+    : "/";
+  const vendorName = portfolio?.vendor?.name ?? portfolio?.vendor_name ?? null;
+  const vendorWebsite = webUrl(portfolio?.vendor?.website_url);
+
+  return (
+    <div className="page">
+      <Topbar />
+      {notice ? <p className={notice.tone === "ok" ? "action-notice ok" : "action-notice error"}>{notice.message}</p> : null}
+      <section className="detail-page">
+        {error ? <p className="state error">{error}</p> : null}
+        {!portfolio && !error ? <p className="state">포트폴리오를 불러오는 중입니다.</p> : null}
+        {portfolio ? (
+          <>
+            <div className="sheet-head">
+              <h2>{portfolio.title}</h2>
+              <p>
+                {portfolio.complex_name ?? `단지 #${portfolio.complex_id}`}
+                {portfolio.unit_type_label ? ` · ${portfolio.unit_type_label}` : ""}
+              </p>
+              {gaps.length > 0 ? <span className="data-gap-badge">{gaps.join(" · ")}</span> : null}
+            </div>
+            <div className="detail-body">
+              <dl className="detail-facts">
+                <div>
+                  <dt>시공비</dt>
+                  <dd>{priceLabel(portfolio.budget_min_krw, portfolio.budget_max_krw)}</dd>
+                </div>
+                <div>
+                  <dt>공사기간</dt>
+                  <dd>{portfolio.duration_days ? `${portfolio.duration_days}일` : "기간 미정"}</dd>
+                </div>
+                <div>
+                  <dt>공사범위</dt>
+                  <dd>{workScopeLabel(portfolio.work_scope)}</dd>
+                </div>
+                <div>
+                  <dt>스타일</dt>
+                  <dd>{styleList(portfolio.style).join(" · ") || "-"}</dd>
+                </div>
+              </dl>
+              {portfolio.description ? <p className="detail-description">{portfolio.description}</p> : null}
+
+              <div className="actions">
+                <button className="ghost" onClick={() => void onFavorite()} disabled={favorited}>
+                  {favorited ? "저장됨" : "즐겨찾기"}
+                </button>
+                <button
+                  className="solid"
+                  onClick={() => setQuoteMessage(`${portfolio.title} 관련 상담 요청`)}
+                  disabled={quoted}
+                >
+                  {quoted ? "문의완료" : "문의"}
+                </button>
+                <Link className="detail-link" to={mapUrl}>평면도에서 보기</Link>
+              </div>
+
+              <section className="detail-section">
+                <h3>{placedPinCount > 0 ? `평면도 포인트 ${placedPinCount}곳` : "평면도 위치 미등록"}</h3>
+                <ol className="detail-steps">
+                  {pins.map((pin, idx) => (
+                    <li key={pin.pinId}>
+                      <button className={idx === activePinIndex ? "active" : ""} onClick={() => setActivePinIndex(idx)}>
+                        {idx + 1}. {pin.title ?? "포인트"}
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+                {activePin ? (
+                  <>
+                    <BeforeAfterCompare beforeUrls={activePin.beforeImageUrls} afterUrls={activePin.afterImageUrls} />
+                    <div className="detail-step-nav">
+                      <button onClick={() => setActivePinIndex((prev) => prev - 1)} disabled={activePinIndex === 0}>
+                        이전 포인트
+                      </button>
+                      <button
+                        onClick={() => setActivePinIndex((prev) => prev + 1)}
+                        disabled={activePinIndex >= pins.length - 1}
+                      >
+                        다음 포인트
+                      </button>
+                    </div>
+                  </>
+                ) : null}
+              </section>
+
+              <section className="detail-section">
+                <h3>전체 사진</h3>
+                {lightboxImages.length === 0 ? <p className="state">등록된 사진이 없습니다.</p> : null}
+                {pins.map((pin, pinIdx) => (
+                  <div key={pin.pinId} className="detail-gallery">
+                    <h4>
+                      {pinIdx + 1}. {pin.title ?? "포인트"}
+                    </h4>
+                    <div className="pin-gallery-grid">
+                      {[...pin.beforeImageUrls, ...pin.afterImageUrls].map((url, idx) => (
+                        <img
+                          key={`${pin.pinId}-${idx}`}
+                          src={url}
+                          alt={`${pin.title ?? "포인트"} ${idx < pin.beforeImageUrls.length ? "before" : "after"}`}
+                          loading="lazy"
+                          onClick={() => setLightboxIndex(lightboxOffset(pinIdx) + idx)}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </section>
+
+              {vendorName ? (
+                <section className="detail-section detail-vendor">
+                  <h3>시공 업체</h3>
+                  <strong>{vendorName}</strong>
+                  {portfolio.vendor?.description ? <p>{portfolio.vendor.description}</p> : null}
+                  <div className="meta compact">
+                    {portfolio.vendor?.portfolio_count != null ? <span>사례 {portfolio.vendor.portfolio_count}건</span> : null}
+                    {portfolio.vendor?.phone ? <a href={`tel:${portfolio.vendor.phone}`}>{portfolio.vendor.phone}</a> : null}
+                    {vendorWebsite ? (
+                      <a href={vendorWebsite} target="_blank" rel="noreferrer">
+                        웹사이트
+                      </a>
+                    ) : null}
+                  </div>
+                </section>
+              ) : null}
+              {portfolio.published_at ? (
+                <p className="detail-published">게시일 {formatDateTimeLabel(portfolio.published_at)}</p>
+              ) : null}
+            </div>
+          </>
+        ) : null}
+      </section>
+
+      {lightboxIndex != null && lightboxImages.length > 0 ? (
+        <Lightbox images={lightboxImages} startIndex={lightboxIndex} onClose={() => setLightboxIndex(null)} />
+      ) : null}
+
+      {quoteMessage != null && portfolio ? (
+        <div className="quote-modal-backdrop" onClick={() => !quoteSubmitting && setQuoteMessage(null)}>
+          <section className="quote-modal" onClick={(e) => e.stopPropagation()}>
+            <h3>문의 보내기</h3>
+            <p>{portfolio.title}</p>
+            <textarea
+              value={quoteMessage}
+              onChange={(e) => setQuoteMessage(e.target.value)}
+              placeholder="문의 내용을 입력하세요."
+              rows={5}
+            />
+            <div className="quote-modal-actions">
+              <button className="ghost" onClick={() => setQuoteMessage(null)} disabled={quoteSubmitting}>취소</button>
+              <button className="solid" onClick={() => void submitQuote()} disabled={quoteSubmitting}>
+                {quoteSubmitting ? "전송 중..." : "문의 전송"}
+              </button>
+            </div>
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { fetchMapPins, type BoundsQuery } from "./api";
+import type { MapPinsResponse, PortfolioFilters } from "./types";
+
+const TTL_MS = 60_000;
+const MAX_ENTRIES = 48;
+
+interface CacheEntry {
+  bounds: BoundsQuery;
+  scope: string;
+  data: MapPinsResponse;
+  storedAt: number;
+}
+
+interface InFlight {
+  promise: Promise<MapPinsResponse>;
+  controller: AbortController;
+  consumers: number;
+}
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlight>();
+
+function abortError() {
+  return new DOMException("Map pin request was superseded", "AbortError");
+}
+
+export function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === "AbortError";
+}
+
+// Snaps bounds outward to the slippy-map tile grid of the current zoom so that small pans
+// and returning to a previous view resolve to the same request.
+function quantizeBounds(bounds: BoundsQuery): BoundsQuery {
+  const step = 360 / 2 ** bounds.zoom;
+  const down = (v: number) => Number((Math.floor(v / step) * step).toFixed(6));
+  const up = (v: number) => Number((Math.ceil(v / step) * step).toFixed(6));
+  return {
+    south: Math.max(-90, down(bounds.south)),
+    west: Math.max(-180, down(bounds.west)),
+    north: Math.min(90, up(bounds.north)),
+    east: Math.min(180, up(bounds.east)),
+    zoom: bounds.zoom,
+  };
+}
+
+function filterScope(zoom: number, filters?: PortfolioFilters) {
+  const parts = Object.entries(filters ?? {})
+    .filter(([, value]) => value !== undefined && value !== "")
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`);
+  return [zoom, ...parts].join("|");
+}
+
+function boundsKey(bounds: BoundsQuery) {
+  return [bounds.south, bounds.west, bounds.north, bounds.east].join(",");
+}
+
+function contains(outer: BoundsQuery, inner: BoundsQuery) {
+  return outer.south <= inner.south && outer.west <= inner.west && outer.north >= inner.north && outer.east >= inner.east;
+}
+
+function remember(key: string, entry: CacheEntry) {
+  entries.delete(key);
+  entries.set(key, entry);
+  while (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) break;
+    entries.delete(oldest);
+  }
+}
+
+// Returns a fresh cached response whose area covers the requested bounds, if any.
+export function peekMapPins(bounds: BoundsQuery, filters?: PortfolioFilters): MapPinsResponse | null {
+  const scope = filterScope(bounds.zoom, filters);
+  const now = Date.now();
+  for (const [key, entry] of entries) {
+    if (now - entry.storedAt > TTL_MS) {
+      entries.delete(key);
+      continue;
+    }
+    if (entry.scope === scope && contains(entry.bounds, bounds)) {
+      remember(key, entry);
+      return entry.data;
+    }
+  }
+  return null;
+}
+
+// Loads pins for the tile-aligned area around `bounds`. Identical concurrent requests share
+// one fetch; the fetch is aborted once every caller that is waiting on it has aborted.
+export function loadMapPins(
+  bounds: BoundsQuery,
+  filters?: PortfolioFilters,
+  signal?: AbortSignal,
+): Promise<MapPinsResponse> {
+  const cached = peekMapPins(bounds, filters);
+  if (cached) return Promise.resolve(cached);
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  const snapped = quantizeBounds(bounds);
+  const scope = filterScope(bounds.zoom, filters);
+  const key = `${scope}|${boundsKey(snapped)}`;
+
+  let request = inFlight.get(key);
+  if (!request) {
+    const controller = new AbortController();
+    const promise = fetchMapPins(snapped, filters, { signal: controller.signal })
+      .then((data) => {
+        remember(key, { bounds: snapped, scope, data, storedAt: Date.now() });
+        return data;
+      })
+      .finally(() => {
+        if (inFlight.get(key)?.promise === promise) inFlight.delete(key);
+      });
+    request = { promise, controller, consumers: 0 };
+    inFlight.set(key, request);
+  }
+
+  const shared = request;
+  shared.consumers += 1;
+  if (!signal) return shared.promise;
+
+  return new Promise<MapPinsResponse>((resolve, reject) => {
+    const onAbort = () => {
+      shared.consumers -= 1;
+      if (shared.consumers <= 0) {
+        shared.controller.abort();
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+      }
+      reject(abortError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    shared.promise.then(
+      (data) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(data);
+      },
+      (e) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(e);
+      },
+    );
+  });
+}
@@ -0,0 +1,159 @@
+import type { FloorPlanPin, PortfolioCard, RoomCategory } from "./types";
+
+export type CardImageSide = "before" | "after";
+
+// In demo mode missing photos, floor plans and pin positions are filled with placeholders so
+// seed data looks complete. Any other mode shows only what was actually uploaded.
+export const DEMO_DATA_MODE = import.meta.env.VITE_DATA_MODE === "demo";
+export const SAMPLE_FLOOR_PLAN_URL = "https://placehold.co/960x640/eef3ea/2b4b3e?text=Sample+Floor+Plan";
+export const FLOOR_PLAN_FALLBACK_URL = DEMO_DATA_MODE ? SAMPLE_FLOOR_PLAN_URL : null;
+
+export interface PortfolioPin {
+  portfolioId: number;
+  pinId: string;
+  x: number;
+  y: number;
+  title?: string | null;
+  room?: RoomCategory | null;
+  // False for the photo set of a portfolio that has no position on the floor plan.
+  placed: boolean;
+  beforeImageUrls: string[];
+  afterImageUrls: string[];
+}
+
+// Golden-angle hue steps keep neighbouring portfolios visually distinct however many there are.
+export function portfolioColor(index: number): string {
+  return `hsl(${Math.round((index * 137.5) % 360)} 62% 42%)`;
+}
+
+// Colours follow the card's position in the loaded list so the pin legend, compare tray and compare view agree.
+export function portfolioColors(cards: PortfolioCard[]): Map<number, string> {
+  return new Map(cards.map((card, idx) => [card.portfolio_id, portfolioColor(idx)]));
+}
+
+export function defaultImageSide(card: PortfolioCard): CardImageSide | null {
+  if (card.after_image_url) return "after";
+  if (card.before_image_url) return "before";
+  return "after";
+}
+
+export function sampleBeforeUrl(portfolioId: number) {
+  return `https://placehold.co/960x640/f4efe8/3f3a34?text=Before+Sample+${portfolioId}`;
+}
+
+export function sampleAfterUrl(portfolioId: number) {
+  return `https://placehold.co/960x640/e8f4eb/254739?text=After+Sample+${portfolioId}`;
+}
+
+export function fallbackImageUrl(side: CardImageSide, portfolioId: number): string | null {
+  if (!DEMO_DATA_MODE) return null;
+  return side === "before" ? sampleBeforeUrl(portfolioId) : sampleAfterUrl(portfolioId);
+}
+
+export function floorPlanUrl(url?: string | null): string | null {
+  return url || FLOOR_PLAN_FALLBACK_URL;
+}
+
+export function sampleBeforeUrls(portfolioId: number): string[] {
+  return [
+    sampleBeforeUrl(portfolioId),
+    `https://placehold.co/960x640/f0ebe4/4a433c?text=Before+Detail+${portfolioId}-2`,
+    `https://placehold.co/960x640/e9e3dc/4e443b?text=Before+Detail+${portfolioId}-3`,
+  ];
+}
+
+export function sampleAfterUrls(portfolioId: number): string[] {
+  return [
+    sampleAfterUrl(portfolioId),
+    `https://placehold.co/960x640/e3f0e7/23513c?text=After+Detail+${portfolioId}-2`,
+    `https://placehold.co/960x640/dfece4/1f4b36?text=After+Detail+${portfolioId}-3`,
+  ];
+}
+
+export function fallbackFloorPin(portfolioId: number): { x: number; y: number } {
+  const baseX = 18 + (portfolioId * 17 % 64);
+  const baseY = 16 + (portfolioId * 13 % 66);
+  return { x: Math.min(92, baseX + 3), y: Math.min(92, baseY + 2) };
+}
+
+export function imageList(card: PortfolioCard, side: CardImageSide): string[] {
+  const urls = side === "before" ? card.before_image_urls : card.after_image_urls;
+  if (urls && urls.length > 0) return urls;
+  const single = side === "before" ? card.before_image_url : card.after_image_url;
+  if (!DEMO_DATA_MODE) return single ? [single] : [];
+  if (single) {
+    const fallback = side === "before" ? sampleBeforeUrls(card.portfolio_id) : sampleAfterUrls(card.portfolio_id);
+    return [single, ...fallback.slice(1)];
+  }
+  return side === "before" ? sampleBeforeUrls(card.portfolio_id) : sampleAfterUrls(card.portfolio_id);
+}
+
+export function pinImageList(pin: FloorPlanPin | undefined, side: CardImageSide, portfolioId: number): string[] {
+  const urls = side === "before" ? pin?.before_image_urls : pin?.after_image_urls;
+  if (urls && urls.length > 0) return urls;
+  if (!DEMO_DATA_MODE) return [];
+  return side === "before" ? sampleBeforeUrls(portfolioId) : sampleAfterUrls(portfolioId);
+}
+
+// Floor-plan pins in walkthrough order. Portfolios without pins get one synthetic pin that
+// carries the card-level images; it is only placed on the plan when the card has a position
+// (or a made-up one in demo mode).
+export function portfolioPins(card: PortfolioCard): PortfolioPin[] {
+  if (card.floor_plan_pins && card.floor_plan_pins.length > 0) {
+    return card.floor_plan_pins
+      .map((pin, idx) => ({ pin, idx }))
+      .sort((a, b) => (a.pin.sort_order ?? a.idx) - (b.pin.sort_order ?? b.idx) || a.idx - b.idx)
+      .map(({ pin }) => ({
+        portfolioId: card.portfolio_id,
+        pinId: pin.pin_id,
+        title: pin.title,
+        room: pin.room ?? null,
+        placed: true,
+        x: pin.x,
+        y: pin.y,
+        beforeImageUrls: pinImageList(pin, "before", card.portfolio_id),
+        afterImageUrls: pinImageList(pin, "after", card.portfolio_id),
+      }));
+  }
+  const hasPosition = card.floor_plan_pin_x != null && card.floor_plan_pin_y != null;
+  const placed = hasPosition || DEMO_DATA_MODE;
+  return [
+    {
+      portfolioId: card.portfolio_id,
+      pinId: `${card.portfolio_id}-pin-1`,
+      title: placed ? "포인트 1" : "대표 사진",
+      placed,
+      x: card.floor_plan_pin_x ?? fallbackFloorPin(card.portfolio_id).x,
+      y: card.floor_plan_pin_y ?? fallbackFloorPin(card.portfolio_id).y,
+      beforeImageUrls: imageList(card, "before"),
+      afterImageUrls: imageList(card, "after"),
+    },
+  ];
+}
+
+// Counts uploaded photos only; the placeholder samples used for display are not included.
+export function photoCount(card: PortfolioCard): number {
+  const urls = new Set<string>();
+  const add = (list?: (string | null | undefined)[] | null) => list?.forEach((url) => url && urls.add(url));
+  add(card.before_image_urls);
+  add(card.after_image_urls);
+  add([card.before_image_url, card.after_image_url]);
+  card.floor_plan_pins?.forEach((pin) => {
+    add(pin.before_image_urls);
+    add(pin.after_image_urls);
+  });
+  return urls.size;
+}
+
+// What a card is missing, regardless of data mode, so incomplete portfolios can be flagged.
+export function dataGaps(card: PortfolioCard): string[] {
+  const pins = card.floor_plan_pins ?? [];
+  const hasBefore = Boolean(card.before_image_urls?.length || card.before_image_url || pins.some((x) => x.before_image_urls?.length));
+  const hasAfter = Boolean(card.after_image_urls?.length || card.after_image_url || pins.some((x) => x.after_image_urls?.length));
+  const hasPosition = pins.length > 0 || (card.floor_plan_pin_x != null && card.floor_plan_pin_y != null);
+  const gaps: string[] = [];
+  if (!hasBefore) gaps.push("Before 사진 없음");
+  if (!hasAfter) gaps.push("After 사진 없음");
+  if (!hasPosition) gaps.push("평면도 위치 미등록");
+  return gaps;
+}
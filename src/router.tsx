@@ -0,0 +1,64 @@
+import { useSyncExternalStore, type AnchorHTMLAttributes, type MouseEvent } from "react";
+
+const NAVIGATE_EVENT = "planifit:navigate";
+
+export function subscribeLocation(onChange: () => void) {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+}
+
+function readLocation() {
+  return `${window.location.pathname}${window.location.search}`;
+}
+
+export function usePathname(): string {
+  return useSyncExternalStore(subscribeLocation, () => window.location.pathname);
+}
+
+export function navigate(to: string, options: { replace?: boolean } = {}) {
+  if (to === readLocation()) return;
+  if (options.replace) {
+    window.history.replaceState(null, "", to);
+  } else {
+    window.history.pushState(null, "", to);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+// Matches "/complexes/:id/types/:unitTypeId" style patterns. A trailing "/*" matches the
+// prefix and exposes the remainder as params["*"].
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const wildcard = pattern.endsWith("/*");
+  const patternParts = (wildcard ? pattern.slice(0, -2) : pattern).split("/").filter(Boolean);
+  const pathParts = pathname.split("/").filter(Boolean);
+  if (wildcard ? pathParts.length < patternParts.length : pathParts.length !== patternParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i += 1) {
+    const part = patternParts[i];
+    if (part.startsWith(":")) {
+      params[part.slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (part !== pathParts[i]) {
+      return null;
+    }
+  }
+  if (wildcard) params["*"] = pathParts.slice(patternParts.length).join("/");
+  return params;
+}
+
+type LinkProps = AnchorHTMLAttributes<HTMLAnchorElement> & { to: string; replace?: boolean };
+
+export function Link({ to, replace, onClick, ...rest }: LinkProps) {
+  function handleClick(e: MouseEvent<HTMLAnchorElement>) {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    if (rest.target && rest.target !== "_self") return;
+    e.preventDefault();
+    navigate(to, { replace });
+  }
+  return <a href={to} onClick={handleClick} {...rest} />;
+}
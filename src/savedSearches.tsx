@@ -0,0 +1,87 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+
+import { createSavedSearch, deleteSavedSearch, fetchSavedSearches, markSavedSearchViewed } from "./api";
+import { useAuth } from "./auth";
+import type { SavedSearch, SavedSearchCreateInput } from "./types";
+import { buildSearchUrl, EMPTY_SEARCH_STATE } from "./urlState";
+
+interface SavedSearchesContextValue {
+  savedSearches: SavedSearch[];
+  newPortfolioCount: number;
+  error: string | null;
+  refresh: () => Promise<void>;
+  save: (payload: SavedSearchCreateInput) => Promise<SavedSearch>;
+  remove: (savedSearchId: number) => Promise<void>;
+  markViewed: (savedSearchId: number) => Promise<void>;
+}
+
+const SavedSearchesContext = createContext<SavedSearchesContextValue | null>(null);
+
+export function savedSearchUrl(search: SavedSearch): string {
+  const bounds = search.bounds;
+  return buildSearchUrl({
+    ...EMPTY_SEARCH_STATE,
+    view: bounds
+      ? { latitude: (bounds.south + bounds.north) / 2, longitude: (bounds.west + bounds.east) / 2, zoom: bounds.zoom }
+      : null,
+    area: search.area && search.area.length >= 3 ? search.area : null,
+    complexId: search.complex_id ?? null,
+    unitTypeId: search.complex_id != null ? (search.unit_type_id ?? null) : null,
+    filters: search.filters,
+  });
+}
+
+export function SavedSearchesProvider({ children }: { children: ReactNode }) {
+  const { authToken, currentUser } = useAuth();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!authToken || !currentUser) {
+      setSavedSearches([]);
+      return;
+    }
+    try {
+      const data = await fetchSavedSearches(authToken);
+      setSavedSearches(data.items);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "저장한 검색을 불러오지 못했습니다.");
+    }
+  }, [authToken, currentUser]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const value = useMemo<SavedSearchesContextValue>(
+    () => ({
+      savedSearches,
+      newPortfolioCount: savedSearches.reduce((sum, x) => sum + x.new_portfolio_count, 0),
+      error,
+      refresh,
+      save: async (payload) => {
+        const created = await createSavedSearch(authToken, payload);
+        setSavedSearches((prev) => [created, ...prev.filter((x) => x.saved_search_id !== created.saved_search_id)]);
+        return created;
+      },
+      remove: async (savedSearchId) => {
+        await deleteSavedSearch(authToken, savedSearchId);
+        setSavedSearches((prev) => prev.filter((x) => x.saved_search_id !== savedSearchId));
+      },
+      markViewed: async (savedSearchId) => {
+        const updated = await markSavedSearchViewed(authToken, savedSearchId);
+        setSavedSearches((prev) => prev.map((x) => (x.saved_search_id === savedSearchId ? updated : x)));
+      },
+    }),
+    [savedSearches, error, refresh, authToken],
+  );
+
+  return <SavedSearchesContext.Provider value={value}>{children}</SavedSearchesContext.Provider>;
+}
+
+export function useSavedSearches(): SavedSearchesContextValue {
+  const value = useContext(SavedSearchesContext);
+  if (!value) throw new Error("useSavedSearches must be used inside SavedSearchesProvider");
+  return value;
+}
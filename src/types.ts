@@ -1,11 +1,36 @@
 export type WorkScopeType = "kitchen" | "bathroom" | "partial" | "full_remodeling";
 export type PublishStatus = "draft" | "review" | "published";
+export type RoomCategory =
+  | "living_room"
+  | "kitchen"
+  | "bathroom"
+  | "bedroom"
+  | "balcony"
+  | "entrance"
+  | "dressing_room"
+  | "other";
+export type PortfolioSort =
+  | "recommended"
+  | "budget_asc"
+  | "budget_desc"
+  | "duration_asc"
+  | "newest"
+  | "media_desc"
+  | "favorite_vendors";
 
 export interface ClusterPin {
   cluster_key: string;
   center_latitude: number;
   center_longitude: number;
   count: number;
+  portfolio_count?: number | null;
+  median_budget_krw?: number | null;
+  complexes?: ComplexPin[] | null;
+}
+
+export interface ClusterComplexesResponse {
+  cluster_key: string;
+  items: ComplexPin[];
 }
 
 export interface ComplexPin {
@@ -14,9 +39,18 @@ export interface ComplexPin {
   latitude: number;
   longitude: number;
   portfolio_count: number;
+  median_budget_krw?: number | null;
   distance_m?: number | null;
 }
 
+export interface ComplexSearchItem extends ComplexPin {
+  address?: string | null;
+}
+
+export interface ComplexSearchResponse {
+  items: ComplexSearchItem[];
+}
+
 export interface MapPinsResponse {
   clusters: ClusterPin[];
   complexes: ComplexPin[];
@@ -38,6 +72,22 @@ export interface UnitTypeChip {
   structure_keyword?: string | null;
   floor_plan_image_url?: string | null;
   portfolio_count: number;
+  // Range over the published portfolios of this unit type.
+  budget_min_krw?: number | null;
+  budget_max_krw?: number | null;
+}
+
+export interface SimilarUnitType {
+  complex_id: number;
+  complex_name: string;
+  latitude: number;
+  longitude: number;
+  distance_m?: number | null;
+  unit_type: UnitTypeChip;
+}
+
+export interface SimilarUnitTypeResponse {
+  items: SimilarUnitType[];
 }
 
 export interface ComplexDetailResponse {
@@ -54,10 +104,21 @@ export interface FloorPlanPin {
   x: number;
   y: number;
   title?: string | null;
+  room?: RoomCategory | null;
+  sort_order?: number | null;
   before_image_urls?: string[] | null;
   after_image_urls?: string[] | null;
 }
 
+export interface VendorSummary {
+  vendor_id: number;
+  name: string;
+  phone?: string | null;
+  website_url?: string | null;
+  description?: string | null;
+  portfolio_count?: number | null;
+}
+
 export interface PortfolioCard {
   portfolio_id: number;
   title: string;
@@ -77,21 +138,77 @@ export interface PortfolioCard {
   vendor_name?: string | null;
 }
 
+export interface PortfolioDetailResponse extends PortfolioCard {
+  complex_id: number;
+  complex_name?: string | null;
+  unit_type_id: number;
+  unit_type_label?: string | null;
+  description?: string | null;
+  published_at?: string | null;
+  vendor?: VendorSummary | null;
+}
+
 export interface PortfolioListResponse {
   items: PortfolioCard[];
   total: number;
 }
 
+// One portfolio's budget with the size of the unit it was done in, used by the cost estimator.
+export interface CostSample {
+  portfolio_id: number;
+  complex_id: number;
+  unit_type_id: number;
+  exclusive_area_m2: number;
+  work_scope: WorkScopeType;
+  budget_min_krw?: number | null;
+  budget_max_krw?: number | null;
+  same_complex: boolean;
+}
+
+export interface CostSampleResponse {
+  items: CostSample[];
+}
+
 export interface PortfolioFilters {
   min_area?: number;
   max_area?: number;
   budget_min_krw?: number;
   budget_max_krw?: number;
   work_scope?: WorkScopeType;
+  // Comma-separated list kept in app state and the page URL; API requests send one `style` param per entry.
   style?: string;
+  min_duration_days?: number;
+  max_duration_days?: number;
   vendor_id?: number;
 }
 
+export interface SavedSearchCriteria {
+  complex_id?: number | null;
+  unit_type_id?: number | null;
+  // Drawn search polygon as [lat, lng] vertices; takes precedence over bounds.
+  area?: [number, number][] | null;
+  bounds?: { south: number; west: number; north: number; east: number; zoom: number } | null;
+  filters: PortfolioFilters;
+}
+
+export interface SavedSearch extends SavedSearchCriteria {
+  saved_search_id: number;
+  name: string;
+  complex_name?: string | null;
+  // Published portfolios matching the search since last_viewed_at.
+  new_portfolio_count: number;
+  last_viewed_at?: string | null;
+  created_at: string;
+}
+
+export interface SavedSearchListResponse {
+  items: SavedSearch[];
+}
+
+export interface SavedSearchCreateInput extends SavedSearchCriteria {
+  name: string;
+}
+
 export interface AuthUser {
   user_id: number;
   email: string;
@@ -148,6 +265,7 @@ export interface AdminFloorPlanPin {
   x_ratio: number;
   y_ratio: number;
   title?: string | null;
+  room?: RoomCategory | null;
   sort_order: number;
   before_image_urls: string[];
   after_image_urls: string[];
@@ -157,6 +275,7 @@ export interface AdminFloorPlanPinCreateInput {
   x_ratio: number;
   y_ratio: number;
   title?: string;
+  room?: RoomCategory | null;
   sort_order: number;
   before_image_urls: string[];
   after_image_urls: string[];
@@ -166,6 +285,7 @@ export interface AdminFloorPlanPinUpdateInput {
   x_ratio?: number;
   y_ratio?: number;
   title?: string;
+  room?: RoomCategory | null;
   sort_order?: number;
   before_image_urls?: string[];
   after_image_urls?: string[];
@@ -0,0 +1,165 @@
+import type { LatLngPoint } from "./geo";
+import type { CardImageSide } from "./portfolioMedia";
+import { matchPath } from "./router";
+import type { PortfolioFilters, PortfolioSort, WorkScopeType } from "./types";
+
+export interface MapView {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+export interface SearchState {
+  view: MapView | null;
+  area: LatLngPoint[] | null;
+  complexId: number | null;
+  unitTypeId: number | null;
+  filters: PortfolioFilters;
+  sort: PortfolioSort;
+  pinnedPortfolioId: number | null;
+  floorPinId: string | null;
+  gallerySide: CardImageSide;
+}
+
+export const EMPTY_SEARCH_STATE: SearchState = {
+  view: null,
+  area: null,
+  complexId: null,
+  unitTypeId: null,
+  filters: {},
+  sort: "recommended",
+  pinnedPortfolioId: null,
+  floorPinId: null,
+  gallerySide: "after",
+};
+
+const WORK_SCOPES: WorkScopeType[] = ["kitchen", "bathroom", "partial", "full_remodeling"];
+const PORTFOLIO_SORTS: PortfolioSort[] = [
+  "recommended",
+  "budget_asc",
+  "budget_desc",
+  "duration_asc",
+  "newest",
+  "media_desc",
+  "favorite_vendors",
+];
+const NUMERIC_FILTER_KEYS = [
+  "min_area",
+  "max_area",
+  "budget_min_krw",
+  "budget_max_krw",
+  "min_duration_days",
+  "max_duration_days",
+  "vendor_id",
+] as const;
+export const MAX_AREA_VERTICES = 40;
+
+function readNumber(params: URLSearchParams, key: string): number | null {
+  const raw = params.get(key);
+  if (raw == null || raw.trim() === "") return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+function toId(raw: string | null | undefined): number | null {
+  if (raw == null || raw.trim() === "") return null;
+  const value = Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+function readArea(params: URLSearchParams): LatLngPoint[] | null {
+  const raw = params.get("area");
+  if (!raw) return null;
+  const points: LatLngPoint[] = [];
+  for (const pair of raw.split(";").slice(0, MAX_AREA_VERTICES)) {
+    const [lat, lng] = pair.split(",").map(Number);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+    points.push([lat, lng]);
+  }
+  return points.length >= 3 ? points : null;
+}
+
+function readFilters(params: URLSearchParams): PortfolioFilters {
+  const filters: PortfolioFilters = {};
+  NUMERIC_FILTER_KEYS.forEach((key) => {
+    const value = readNumber(params, key);
+    if (value != null && value >= 0) filters[key] = value;
+  });
+  const scope = params.get("work_scope");
+  if (scope && WORK_SCOPES.includes(scope as WorkScopeType)) filters.work_scope = scope as WorkScopeType;
+  const style = params.get("style");
+  if (style) filters.style = style;
+  return filters;
+}
+
+export function isMapPath(pathname: string): boolean {
+  return (
+    pathname === "/" ||
+    matchPath("/complexes/:id", pathname) != null ||
+    matchPath("/complexes/:id/types/:unitTypeId", pathname) != null
+  );
+}
+
+export function readSearchState(pathname: string, search: string): SearchState {
+  const params = new URLSearchParams(search);
+  const route = matchPath("/complexes/:id/types/:unitTypeId", pathname) ?? matchPath("/complexes/:id", pathname);
+  const lat = readNumber(params, "lat");
+  const lng = readNumber(params, "lng");
+  const zoom = readNumber(params, "z");
+  const view =
+    lat != null && lng != null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+      ? { latitude: lat, longitude: lng, zoom: zoom != null ? Math.round(zoom) : 13 }
+      : null;
+  const complexId = toId(route?.id);
+  const unitTypeId = complexId != null ? toId(route?.unitTypeId) : null;
+  const pinnedPortfolioId = unitTypeId != null ? toId(params.get("portfolio")) : null;
+  return {
+    view,
+    area: readArea(params),
+    complexId,
+    unitTypeId,
+    filters: readFilters(params),
+    sort: PORTFOLIO_SORTS.find((x) => x === params.get("sort")) ?? "recommended",
+    pinnedPortfolioId,
+    floorPinId: pinnedPortfolioId != null ? params.get("pin") : null,
+    gallerySide: params.get("side") === "before" ? "before" : "after",
+  };
+}
+
+export function buildSearchUrl(state: SearchState): string {
+  let path = "/";
+  if (state.complexId != null) {
+    path = state.unitTypeId != null
+      ? `/complexes/${state.complexId}/types/${state.unitTypeId}`
+      : `/complexes/${state.complexId}`;
+  }
+  const params = new URLSearchParams();
+  if (state.view) {
+    params.set("lat", state.view.latitude.toFixed(5));
+    params.set("lng", state.view.longitude.toFixed(5));
+    params.set("z", String(state.view.zoom));
+  }
+  if (state.area) {
+    params.set("area", state.area.map(([lat, lng]) => `${lat.toFixed(5)},${lng.toFixed(5)}`).join(";"));
+  }
+  if (state.filters.work_scope) params.set("work_scope", state.filters.work_scope);
+  if (state.filters.style) params.set("style", state.filters.style);
+  NUMERIC_FILTER_KEYS.forEach((key) => {
+    const value = state.filters[key];
+    if (value !== undefined) params.set(key, String(value));
+  });
+  if (state.sort !== "recommended") params.set("sort", state.sort);
+  if (state.unitTypeId != null && state.pinnedPortfolioId != null) {
+    params.set("portfolio", String(state.pinnedPortfolioId));
+    if (state.floorPinId) params.set("pin", state.floorPinId);
+    if (state.gallerySide === "before") params.set("side", "before");
+  }
+  const qs = params.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+// True when two states differ only in map position, so the change can replace the
+// current history entry instead of pushing a new one.
+export function sameSelection(a: SearchState, b: SearchState): boolean {
+  return buildSearchUrl({ ...a, view: null }) === buildSearchUrl({ ...b, view: null });
+}